@@ -1,61 +1,155 @@
 import type { BetterAuthClientPlugin } from "better-auth/client";
-import type { RestoreAccountInput, RestoreAccountSuccess } from "./types";
+import { atom } from "nanostores";
+import { SOFT_DELETION_ERROR_CODES } from "./error-codes";
+import type { softDeletion } from "./index";
+import type {
+    AdminListDeletedUsersInput,
+    AdminListDeletedUsersResult,
+    AdminListEventsInput,
+    AdminListEventsResult,
+    AdminPurgeUserResult,
+    AdminUserIdInput,
+    DeleteAccountInput,
+    DeletedUserSummary,
+    DeletionStatus,
+    DeletionStatusInput,
+    DeletionStatusState,
+    RequestAccountRestoreInput,
+    RestoreAccountInput,
+    RestoreAccountSuccess,
+    RestoreAccountTwoFactorChallenge,
+    SoftDeletionClientResult,
+    VerifyAccountRestoreInput,
+    VerifyRestoreTwoFactorInput,
+} from "./types";
 
 type ClientFetch = (
     path: string,
     init: {
-        method: "POST";
-        body: RestoreAccountInput;
+        method: "GET" | "POST";
+        body?:
+            | RestoreAccountInput
+            | RequestAccountRestoreInput
+            | VerifyAccountRestoreInput
+            | VerifyRestoreTwoFactorInput
+            | DeletionStatusInput
+            | DeleteAccountInput
+            | AdminUserIdInput;
+        query?: AdminListDeletedUsersInput | AdminListEventsInput | AdminUserIdInput;
     }
 ) => Promise<unknown>;
 
-type SoftDeletionServerPluginShape = {
-    id: "SoftDeletion";
-    schema: {
-        user: {
-            fields: {
-                status: {
-                    type: "string";
-                    defaultValue: string;
-                };
-                deletedAt: {
-                    type: "date";
-                    required: false;
-                };
-            };
-        };
-        blockedIdentifier: {
-            fields: {
-                identifierHash: {
-                    type: "string";
-                    required: true;
-                };
-                type: {
-                    type: "string";
-                    required: true;
-                };
-                expiresAt: {
-                    type: "date";
-                    required: false;
-                };
-            };
-        };
-    };
-    endpoints: {};
-};
+const initialDeletionStatus: DeletionStatusState = { data: null, error: null, isPending: false };
 
 export const softDeletionClient = () => {
+    const $deletionStatus = atom<DeletionStatusState>(initialDeletionStatus);
+    // Once the account is restored there is no deletion status left to render.
+    const clearDeletionStatusOnRestore = <T extends SoftDeletionClientResult<object>>(res: T) => {
+        if (res.data && !("twoFactorRequired" in res.data)) $deletionStatus.set(initialDeletionStatus);
+        return res;
+    };
+
     return {
         id: "SoftDeletion",
-        $InferServerPlugin: {} as SoftDeletionServerPluginShape,
+        $InferServerPlugin: {} as ReturnType<typeof softDeletion>,
+        $ERROR_CODES: SOFT_DELETION_ERROR_CODES,
+        getAtoms: () => ({
+            deletionStatus: $deletionStatus,
+        }),
         getActions: ($fetch: ClientFetch) => ({
+            getDeletionStatus: async (data: DeletionStatusInput) => {
+                $deletionStatus.set({ ...$deletionStatus.get(), isPending: true });
+                const res = (await $fetch("/soft-deletion/status", {
+                    method: "POST",
+                    body: data,
+                })) as SoftDeletionClientResult<DeletionStatus>;
+                $deletionStatus.set({ data: res.data, error: res.error, isPending: false });
+                return res;
+            },
             restoreAccount: async (data: RestoreAccountInput) => {
                 const res = await $fetch("/soft-deletion/restore", {
                     method: "POST",
                     body: data,
                 });
-                return res as { data: RestoreAccountSuccess; error: unknown };
+                return clearDeletionStatusOnRestore(
+                    res as SoftDeletionClientResult<RestoreAccountSuccess | RestoreAccountTwoFactorChallenge>,
+                );
+            },
+            verifyRestoreTwoFactor: async (data: VerifyRestoreTwoFactorInput) => {
+                const res = await $fetch("/soft-deletion/restore/two-factor", {
+                    method: "POST",
+                    body: data,
+                });
+                return clearDeletionStatusOnRestore(res as SoftDeletionClientResult<RestoreAccountSuccess>);
+            },
+            requestAccountRestore: async (data: RequestAccountRestoreInput) => {
+                const res = await $fetch("/soft-deletion/restore/request", {
+                    method: "POST",
+                    body: data,
+                });
+                return res as SoftDeletionClientResult<RestoreAccountSuccess>;
+            },
+            verifyAccountRestore: async (data: VerifyAccountRestoreInput) => {
+                const res = await $fetch("/soft-deletion/restore/verify", {
+                    method: "POST",
+                    body: data,
+                });
+                return clearDeletionStatusOnRestore(
+                    res as SoftDeletionClientResult<RestoreAccountSuccess | RestoreAccountTwoFactorChallenge>,
+                );
+            },
+            // Typed `/delete-user` call that also sends the exit survey; `authClient.deleteUser` does not accept those fields.
+            deleteAccount: async (data: DeleteAccountInput) => {
+                const res = await $fetch("/delete-user", {
+                    method: "POST",
+                    body: data,
+                });
+                return res as SoftDeletionClientResult<{ success: boolean; message: string }>;
+            },
+            cancelDeletion: async () => {
+                const res = await $fetch("/soft-deletion/cancel", {
+                    method: "POST",
+                });
+                return res as SoftDeletionClientResult<RestoreAccountSuccess>;
+            },
+            adminListDeletedUsers: async (query: AdminListDeletedUsersInput = {}) => {
+                const res = await $fetch("/soft-deletion/admin/list-deleted-users", {
+                    method: "GET",
+                    query,
+                });
+                return res as SoftDeletionClientResult<AdminListDeletedUsersResult>;
+            },
+            adminGetDeletedUser: async (query: AdminUserIdInput) => {
+                const res = await $fetch("/soft-deletion/admin/get-deleted-user", {
+                    method: "GET",
+                    query,
+                });
+                return res as SoftDeletionClientResult<DeletedUserSummary>;
+            },
+            adminRestoreUser: async (data: AdminUserIdInput) => {
+                const res = await $fetch("/soft-deletion/admin/restore-user", {
+                    method: "POST",
+                    body: data,
+                });
+                return res as SoftDeletionClientResult<RestoreAccountSuccess>;
+            },
+            adminPurgeUser: async (data: AdminUserIdInput) => {
+                const res = await $fetch("/soft-deletion/admin/purge-user", {
+                    method: "POST",
+                    body: data,
+                });
+                return res as SoftDeletionClientResult<AdminPurgeUserResult>;
+            },
+            adminListEvents: async (query: AdminListEventsInput = {}) => {
+                const res = await $fetch("/soft-deletion/admin/list-events", {
+                    method: "GET",
+                    query,
+                });
+                return res as SoftDeletionClientResult<AdminListEventsResult>;
             },
         }),
     } satisfies BetterAuthClientPlugin;
 };
+
+export { SOFT_DELETION_ERROR_CODES, getAccountDeletedDetails } from "./error-codes";
+export type { SoftDeletionErrorCode } from "./error-codes";
@@ -0,0 +1,58 @@
+import type { DeletionMetadata } from "./types";
+
+/**
+ * Error codes returned by the plugin, exposed as `$ERROR_CODES` on the server and client plugins.
+ * Messages are the default wording; some endpoints return a more specific message with the same code.
+ */
+export const SOFT_DELETION_ERROR_CODES = {
+    ACCOUNT_DELETED: { code: "ACCOUNT_DELETED", message: "Your account has been deleted." },
+    EMAIL_BLOCKED: { code: "EMAIL_BLOCKED", message: "This email is not allowed to register." },
+    PHONE_NUMBER_BLOCKED: { code: "PHONE_NUMBER_BLOCKED", message: "This phone number is not allowed to register." },
+    USERNAME_BLOCKED: { code: "USERNAME_BLOCKED", message: "This username is not allowed to register." },
+    ACCOUNT_BLOCKED: { code: "ACCOUNT_BLOCKED", message: "This account is not allowed to register." },
+    RESTORE_INPUT_REQUIRED: { code: "RESTORE_INPUT_REQUIRED", message: "Email and password are required to restore account." },
+    ACCOUNT_NOT_DELETED: { code: "ACCOUNT_NOT_DELETED", message: "Account is not deleted." },
+    NO_PASSWORD_CREDENTIAL: { code: "NO_PASSWORD_CREDENTIAL", message: "Password confirmation is not available for this account." },
+    AUTH_INVALID_CREDENTIALS: { code: "AUTH_INVALID_CREDENTIALS", message: "Invalid email or password." },
+    RESTORE_RATE_LIMITED: { code: "RESTORE_RATE_LIMITED", message: "Too many restore attempts. Please try again later." },
+    RESTORE_WINDOW_EXPIRED: { code: "RESTORE_WINDOW_EXPIRED", message: "The restore window for this account has expired." },
+    RESTORE_EMAIL_NOT_CONFIGURED: { code: "RESTORE_EMAIL_NOT_CONFIGURED", message: "Restore by email is not enabled." },
+    INVALID_RESTORE_TOKEN: { code: "INVALID_RESTORE_TOKEN", message: "Restore token is invalid or has expired." },
+    INVALID_TWO_FACTOR_CHALLENGE: { code: "INVALID_TWO_FACTOR_CHALLENGE", message: "Two-factor challenge is invalid or has expired." },
+    INVALID_TWO_FACTOR_CODE: { code: "INVALID_TWO_FACTOR_CODE", message: "Invalid two-factor code." },
+    INVALID_DELETION_DETAILS: { code: "INVALID_DELETION_DETAILS", message: "Deletion reason or feedback is invalid." },
+    DELETION_PENDING: { code: "DELETION_PENDING", message: "Account deletion is pending. Sign in and cancel it instead." },
+    NO_PENDING_DELETION: { code: "NO_PENDING_DELETION", message: "There is no pending deletion to cancel." },
+    SOLE_OWNER: { code: "SOLE_OWNER", message: "The account is the only owner of an organization. Transfer ownership first." },
+    ADMIN_ROLE_REQUIRED: { code: "ADMIN_ROLE_REQUIRED", message: "You are not allowed to manage deleted users." },
+    DELETED_USER_NOT_FOUND: { code: "DELETED_USER_NOT_FOUND", message: "Deleted user not found." },
+    USER_NOT_FOUND: { code: "USER_NOT_FOUND", message: "User not found." },
+    ACCOUNT_ALREADY_DELETED: { code: "ACCOUNT_ALREADY_DELETED", message: "Account is already deleted." },
+    MODEL_NOT_SOFT_DELETED: { code: "MODEL_NOT_SOFT_DELETED", message: "Model is not listed in the soft deletion `models` option." },
+    DELETED_RECORD_NOT_FOUND: { code: "DELETED_RECORD_NOT_FOUND", message: "Deleted record not found." },
+    SD_CONTEXT_INVALID: { code: "SD_CONTEXT_INVALID", message: "Soft deletion context is unavailable." },
+    SD_ADAPTER_CTX_MISSING: { code: "SD_ADAPTER_CTX_MISSING", message: "Soft deletion adapter context is unavailable." },
+    SD_HASH_SECRET_MISSING: { code: "SD_HASH_SECRET_MISSING", message: "Identifier hashing secret is unavailable." },
+} as const;
+
+export type SoftDeletionErrorCode = keyof typeof SOFT_DELETION_ERROR_CODES;
+
+/**
+ * Reads the deletion dates from an `ACCOUNT_DELETED` error, or returns `null` for any other error.
+ * Accepts both a client `error` (`{ code, details }`) and a server `APIError` (`{ body: { code, details } }`).
+ */
+export function getAccountDeletedDetails(error: unknown): DeletionMetadata | null {
+    if (!error || typeof error !== "object") return null;
+    const payload = ("body" in error && error.body && typeof error.body === "object" ? error.body : error) as {
+        code?: unknown;
+        details?: unknown;
+    };
+    if (payload.code !== SOFT_DELETION_ERROR_CODES.ACCOUNT_DELETED.code) return null;
+    const details = payload.details as Partial<DeletionMetadata> | null | undefined;
+    if (!details?.deletedAt || !details.restoreDeadline || !details.scheduledDeletionDate) return null;
+    return {
+        deletedAt: details.deletedAt,
+        restoreDeadline: details.restoreDeadline,
+        scheduledDeletionDate: details.scheduledDeletionDate,
+    };
+}
@@ -1,67 +1,877 @@
 import { BetterAuthPlugin, APIError } from "better-auth";
-import { createAuthEndpoint } from "better-auth/api";
+import type { BetterAuthPluginDBSchema, DBFieldAttribute } from "better-auth/db";
+import { createAuthEndpoint, createAuthMiddleware, getIP, isAPIError, sessionMiddleware } from "better-auth/api";
+import { deleteSessionCookie } from "better-auth/cookies";
+import { symmetricDecrypt, symmetricEncrypt, type SecretConfig } from "better-auth/crypto";
 import * as z from "zod";
-import { hashIdentifier } from "./utils";
+import { SOFT_DELETION_ERROR_CODES } from "./error-codes";
+import { generateToken, hashIdentifier, signWebhookPayload, verifyTotp } from "./utils";
 import {
+    AdminListDeletedUsersInput,
+    AdminListDeletedUsersResult,
+    AdminListEventsInput,
+    AdminListEventsResult,
+    AdminPurgeUserResult,
+    AdminUserIdInput,
+    BlockedIdentifierType,
+    DeliverWebhooksInput,
+    DeliverWebhooksResult,
+    ProcessPendingDeletionsInput,
+    ProcessPendingDeletionsResult,
+    DeletedUserSummary,
+    DeletionDetails,
+    DeletionStatus,
+    ModelRecordInput,
+    PurgeExpiredModelRecordsInput,
+    PurgeExpiredModelRecordsResult,
+    PurgeExpiredUsersInput,
+    PurgeExpiredUsersResult,
+    QueryWhere,
+    RehashBlockedIdentifiersInput,
+    RehashBlockedIdentifiersResult,
+    RequestAccountRestoreInput,
     RestoreAccountInput,
+    RestoreAccountTwoFactorChallenge,
+    RestoreAttemptState,
+    RestoreMethod,
+    RuntimePassword,
+    SoftDeleteUserInput,
+    SoftDeleteUserResult,
     SoftDeletionAccountRecord,
+    SoftDeletionAdapter,
+    SoftDeletionEventRecord,
+    SoftDeletionActor,
+    SoftDeletionEventType,
     SoftDeletionHookContext,
+    SoftDeletionIdentifier,
+    SoftDeletionMemberRecord,
     SoftDeletionOptions,
+    SoftDeletionOrganizationRecord,
     SoftDeletionUserRecord,
+    SoftDeletionTwoFactorRecord,
+    SoftDeletionWebhookRecord,
+    SoftDeletionVerificationRecord,
+    VerifyAccountRestoreInput,
+    VerifyRestoreTwoFactorInput,
+    WebhookPayload,
 } from "./types";
 
 export { softDeletionClient } from "./client";
+export { canonicalizeEmail } from "./utils";
+export { SOFT_DELETION_ERROR_CODES, getAccountDeletedDetails } from "./error-codes";
+export type { SoftDeletionErrorCode } from "./error-codes";
 
 export const softDeletion = (options?: SoftDeletionOptions) => {
     const retentionDays = options?.retentionDays ?? 30;
+    const restoreWindowDays = options?.restoreWindowDays ?? retentionDays;
+    // A user is never purged while they can still restore their account.
+    const purgeAfterDays = Math.max(retentionDays, restoreWindowDays);
+    const gracePeriodDays = options?.gracePeriodDays ?? 0;
+    const onExpire = options?.onExpire ?? "purge";
     const blockReRegistration = options?.blockReRegistration ?? true;
+    const privacyMode = options?.privacyMode ?? false;
+    const restoreOnSignIn = options?.restoreOnSignIn ?? false;
+    const cookieCacheStatusCheck = options?.cookieCacheStatusCheck ?? false;
+    const blockedIdentifierTypes: BlockedIdentifierType[] = options?.blockedIdentifierTypes ?? [
+        "email",
+        "phoneNumber",
+        "username",
+        "account",
+    ];
+    const blockedIdentifierErrors: Record<BlockedIdentifierType, { code: string; message: string }> = {
+        email: SOFT_DELETION_ERROR_CODES.EMAIL_BLOCKED,
+        phoneNumber: SOFT_DELETION_ERROR_CODES.PHONE_NUMBER_BLOCKED,
+        username: SOFT_DELETION_ERROR_CODES.USERNAME_BLOCKED,
+        account: SOFT_DELETION_ERROR_CODES.ACCOUNT_BLOCKED,
+    };
+    const auditEvents = options?.auditEvents ?? true;
+    const transitionEventTypes: SoftDeletionEventType[] = [
+        "deletion_scheduled",
+        "deletion_cancelled",
+        "deleted",
+        "restored",
+        "purged",
+        "anonymized",
+    ];
+    const webhookEndpoints = options?.webhooks?.endpoints ?? [];
+    const webhookMaxAttempts = options?.webhooks?.maxAttempts ?? 10;
+    const webhookBackoffSeconds = options?.webhooks?.backoffSeconds ?? 30;
+    const webhookTimeoutMs = options?.webhooks?.timeoutMs ?? 10_000;
+    const normalizeEmail = options?.normalizeEmail ?? ((email: string) => email.toLowerCase().trim());
+    const identifierKeyVersion = options?.identifierHashing?.keyVersion ?? "1";
+    const restoreTokenExpiresIn = options?.restoreTokenExpiresIn ?? 60 * 60;
+    const restoreTokenPrefix = "soft-deletion-restore:";
+    const revokedSessionPrefix = "soft-deletion-revoked:";
+    const restoreAttemptPrefix = "soft-deletion-restore-attempts:";
+    const lockoutOptions = options?.restoreLockout === false ? null : (options?.restoreLockout ?? {});
+    const lockoutMaxAttempts = lockoutOptions?.maxAttempts ?? 5;
+    const lockoutWindowMs = (lockoutOptions?.windowSeconds ?? 15 * 60) * 1000;
+    const lockoutBaseMs = (lockoutOptions?.lockoutSeconds ?? 60) * 1000;
+    const twoFactorOptions = options?.restoreTwoFactor === false ? null : (options?.restoreTwoFactor ?? {});
+    const twoFactorChallengeExpiresIn = twoFactorOptions?.challengeExpiresIn ?? 5 * 60;
+    const twoFactorMaxAttempts = twoFactorOptions?.maxAttempts ?? 5;
+    const twoFactorChallengePrefix = "soft-deletion-restore-2fa:";
     const restoreAccountBodySchema = z.object({
         email: z.string().email(),
         password: z.string().min(1),
     });
+    const requestAccountRestoreBodySchema = z.object({
+        email: z.string().email(),
+        callbackURL: z.string().min(1),
+    });
+    const verifyAccountRestoreBodySchema = z.object({
+        token: z.string().min(1),
+    });
+    const verifyRestoreTwoFactorBodySchema = z.object({
+        challengeToken: z.string().min(1),
+        code: z.string().min(1),
+        method: z.enum(["totp", "backup_code"]).optional(),
+    });
+    const deletionStatusBodySchema = z.object({
+        email: z.string().email().optional(),
+        password: z.string().min(1).optional(),
+        token: z.string().min(1).optional(),
+    });
+    const rehashBlockedIdentifiersBodySchema = z
+        .object({
+            batchSize: z.number().int().positive().max(1000).optional(),
+            offset: z.number().int().min(0).optional(),
+        })
+        .optional();
+    const purgeExpiredUsersBodySchema = z
+        .object({
+            batchSize: z.number().int().positive().max(1000).optional(),
+            now: z.coerce.date().optional(),
+            dryRun: z.boolean().optional(),
+        })
+        .optional();
+    const adminListDeletedUsersQuerySchema = z
+        .object({
+            limit: z.coerce.number().int().positive().max(1000).optional(),
+            offset: z.coerce.number().int().min(0).optional(),
+            deletedBefore: z.coerce.date().optional(),
+            deletedAfter: z.coerce.date().optional(),
+            reason: z.string().min(1).optional(),
+        })
+        .optional();
+    const adminListEventsQuerySchema = z
+        .object({
+            userId: z.string().min(1).optional(),
+            type: z
+                .enum([
+                    "deletion_scheduled",
+                    "deletion_cancelled",
+                    "deleted",
+                    "restored",
+                    "purged",
+                    "anonymized",
+                    "sign_in_blocked",
+                    "sign_up_blocked",
+                ])
+                .optional(),
+            limit: z.coerce.number().int().positive().max(1000).optional(),
+            offset: z.coerce.number().int().min(0).optional(),
+            from: z.coerce.date().optional(),
+            to: z.coerce.date().optional(),
+        })
+        .optional();
+    const adminUserIdQuerySchema = z.object({
+        userId: z.string().min(1),
+    });
+    const adminUserIdBodySchema = z.object({
+        userId: z.string().min(1),
+    });
+    const softDeleteUserBodySchema = z.object({
+        userId: z.string().min(1),
+        reason: z.string().min(1).optional(),
+    });
+    const restoreUserBodySchema = z.object({
+        userId: z.string().min(1),
+    });
+    const processPendingDeletionsBodySchema = z
+        .object({
+            batchSize: z.number().int().positive().max(1000).optional(),
+            now: z.coerce.date().optional(),
+        })
+        .optional();
+    const modelRecordBodySchema = z.object({
+        model: z.string().min(1),
+        id: z.string().min(1),
+    });
+    const purgeExpiredModelRecordsBodySchema = z
+        .object({
+            models: z.array(z.string().min(1)).optional(),
+            before: z.coerce.date().optional(),
+        })
+        .optional();
+    const deliverWebhooksBodySchema = z
+        .object({
+            batchSize: z.number().int().positive().max(1000).optional(),
+            now: z.coerce.date().optional(),
+        })
+        .optional();
+    const deleteUserDetailsBodySchema = z.object({
+        reason: z
+            .string()
+            .min(1)
+            .max(100)
+            .refine((reason) => !options?.deletionReasons || options.deletionReasons.includes(reason))
+            .optional(),
+        feedback: z
+            .string()
+            .trim()
+            .max(options?.maxDeletionFeedbackLength ?? 1000)
+            .optional(),
+    });
+    const adminRoles = options?.adminRoles ?? ["admin"];
+    const organizationOptions = options?.organizations;
+    const soleOwnerPolicy = organizationOptions?.onSoleOwner ?? "refuse";
+    const organizationOwnerRole = organizationOptions?.ownerRole ?? "owner";
+    const organizationAdminRole = organizationOptions?.adminRole ?? "admin";
+    // `user` is soft deleted through `status`, not `deletedAt`.
+    const softDeletedModels = (options?.models ?? []).filter((model) => model !== "user");
     const toHookContext = (value: unknown): SoftDeletionHookContext | null => {
         if (!value || typeof value !== "object") return null;
         return value as SoftDeletionHookContext;
     };
+    const toAuthContext = (value: unknown): SoftDeletionHookContext["context"] | null => {
+        if (!value || typeof value !== "object") return null;
+        return value as SoftDeletionHookContext["context"];
+    };
+    // Auth context captured in `init`, for hooks and helpers that run without a request context.
+    let initContext: SoftDeletionHookContext["context"] | null = null;
+    // Hash verified when no credential exists, so privacy mode takes the same time either way.
+    let dummyPasswordHash: Promise<string> | null = null;
+    const getDummyPasswordHash = (password: RuntimePassword) => {
+        dummyPasswordHash ??= password.hash ? password.hash(generateToken()) : Promise.resolve("");
+        return dummyPasswordHash;
+    };
 
-    const readEmailFromBody = (body: unknown): string | null => {
-        if (!body || typeof body !== "object" || !("email" in body)) {
+    const readStringFromBody = (body: unknown, field: string): string | null => {
+        if (!body || typeof body !== "object" || !(field in body)) {
             return null;
         }
-        const email = (body as { email?: unknown }).email;
-        if (typeof email !== "string") return null;
-        return email.toLowerCase().trim();
+        const value = (body as Record<string, unknown>)[field];
+        if (typeof value !== "string") return null;
+        return value.toLowerCase().trim();
+    };
+
+    const readEmailFromBody = (body: unknown) => readStringFromBody(body, "email");
+
+    // Better Auth stores emails lowercased; every email-based lookup goes through here so they agree.
+    const findUserByEmail = async (adapter: SoftDeletionHookContext["context"]["adapter"], email: string) =>
+        (await adapter.findOne({
+            model: "user",
+            where: [{ field: "email", value: email.toLowerCase().trim() }],
+        })) as SoftDeletionUserRecord | null;
+
+    const addDays = (date: Date, days: number) => {
+        const result = new Date(date);
+        result.setDate(result.getDate() + days);
+        return result;
     };
 
     const getDeletionMetadata = (deletedAt?: Date | string | null) => {
         const deletedDate = deletedAt ? new Date(deletedAt) : new Date();
-        const scheduled = new Date(deletedDate);
-        scheduled.setDate(scheduled.getDate() + retentionDays);
         return {
             deletedAt: deletedDate.toISOString(),
-            scheduledDeletionDate: scheduled.toISOString(),
+            restoreDeadline: addDays(deletedDate, restoreWindowDays).toISOString(),
+            scheduledDeletionDate: addDays(deletedDate, purgeAfterDays).toISOString(),
+        };
+    };
+
+    const isRestoreWindowOpen = (deletedAt?: Date | string | null, now = new Date()) => {
+        // Rows without deletedAt predate the column; treat them as restorable.
+        if (!deletedAt) return true;
+        return addDays(new Date(deletedAt), restoreWindowDays) > now;
+    };
+
+    const getDeletionStatus = (user: SoftDeletionUserRecord, hasPasswordCredential: boolean): DeletionStatus => {
+        const metadata = getDeletionMetadata(user.deletedAt);
+        const restorable = user.status === "deleted" && isRestoreWindowOpen(user.deletedAt);
+        const restoreMethods: RestoreMethod[] = [];
+        if (restorable && hasPasswordCredential) restoreMethods.push("password");
+        if (restorable && options?.sendRestoreEmail) restoreMethods.push("email");
+        const msRemaining = new Date(metadata.restoreDeadline).getTime() - Date.now();
+        return {
+            ...metadata,
+            restorable,
+            daysRemaining: restorable ? Math.max(0, Math.ceil(msRemaining / (24 * 60 * 60 * 1000))) : 0,
+            restoreMethods,
+            twoFactorRequired: Boolean(twoFactorOptions && user.twoFactorEnabled),
         };
     };
 
-    const clearBlockedIdentifier = async (
+    // Identifiers carried on the user row (email, phone-number plugin, username plugin).
+    const getUserIdentifiers = (user: SoftDeletionUserRecord) => {
+        const identifiers: SoftDeletionIdentifier[] = [];
+        // Same normalization on delete, sign-up and restore so stored and checked hashes always match.
+        if (user.email) identifiers.push({ type: "email", value: normalizeEmail(user.email) });
+        if (user.phoneNumber) identifiers.push({ type: "phoneNumber", value: user.phoneNumber });
+        if (user.username) identifiers.push({ type: "username", value: user.username });
+        return identifiers.filter((identifier) => blockedIdentifierTypes.includes(identifier.type));
+    };
+
+    const getAccountIdentifier = (account: SoftDeletionAccountRecord) => {
+        if (!account.providerId || !account.accountId || account.providerId === "credential") return null;
+        return `${account.providerId}:${account.accountId}`;
+    };
+
+    // All identifiers known for the user, including linked provider accounts.
+    const collectUserIdentifiers = async (
         adapter: SoftDeletionHookContext["context"]["adapter"],
-        email?: string | null,
+        user: SoftDeletionUserRecord,
     ) => {
-        if (!email) return;
-        const hash = await hashIdentifier(email);
+        const identifiers = getUserIdentifiers(user);
+        if (blockedIdentifierTypes.includes("account")) {
+            const accounts = ((await adapter.findMany?.({
+                model: "account",
+                where: [{ field: "userId", value: user.id }],
+            })) ?? []) as SoftDeletionAccountRecord[];
+            for (const account of accounts) {
+                const value = getAccountIdentifier(account);
+                if (value) identifiers.push({ type: "account", value });
+            }
+        }
+        return identifiers;
+    };
+
+    // Hash keys to try for an identifier: the current key first, then rotated-out keys,
+    // then plain SHA-256 for rows written before HMAC hashing was enabled.
+    const getIdentifierHashes = async (value: string) => {
+        const hashing = options?.identifierHashing;
+        if (!hashing) {
+            return [{ keyVersion: null, hash: await hashIdentifier(value) }];
+        }
+        const secret = hashing.secret ?? initContext?.secret;
+        if (!secret) {
+            throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_HASH_SECRET_MISSING);
+        }
+        const keys = [{ version: identifierKeyVersion, secret }, ...(hashing.previousKeys ?? [])];
+        const hashes: Array<{ keyVersion: string | null; hash: string }> = [];
+        for (const key of keys) {
+            hashes.push({ keyVersion: key.version, hash: await hashIdentifier(value, key.secret) });
+        }
+        hashes.push({ keyVersion: null, hash: await hashIdentifier(value) });
+        return hashes;
+    };
 
-        await adapter.delete?.({
-            model: "blockedIdentifier",
-            where: [
+    const findBlockedIdentifier = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        identifier: SoftDeletionIdentifier,
+    ) => {
+        for (const { hash } of await getIdentifierHashes(identifier.value)) {
+            const where = [
                 { field: "identifierHash", value: hash },
-                { field: "type", value: "email" }
-            ]
+                { field: "type", value: identifier.type },
+            ];
+            const row = (await adapter.findOne({
+                model: "blockedIdentifier",
+                where,
+            })) as { expiresAt?: Date | string | null } | null;
+            if (row) return { row, where };
+        }
+        return null;
+    };
+
+    const blockIdentifiers = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        identifiers: SoftDeletionIdentifier[],
+    ) => {
+        const expiresAt = addDays(new Date(), retentionDays);
+        for (const identifier of identifiers) {
+            const [current] = await getIdentifierHashes(identifier.value);
+            if (!current) continue;
+            const existing = await findBlockedIdentifier(adapter, identifier);
+            if (existing) {
+                // Also moves rows hashed with an older key onto the current one.
+                await adapter.update({
+                    model: "blockedIdentifier",
+                    where: existing.where,
+                    update: { identifierHash: current.hash, keyVersion: current.keyVersion, expiresAt },
+                });
+            } else {
+                // Save to blockedIdentifier table
+                await adapter.create?.({
+                    model: "blockedIdentifier",
+                    data: {
+                        identifierHash: current.hash,
+                        type: identifier.type,
+                        keyVersion: current.keyVersion,
+                        expiresAt,
+                    },
+                });
+            }
+        }
+    };
+
+    const clearBlockedIdentifiers = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        identifiers: SoftDeletionIdentifier[],
+    ) => {
+        for (const identifier of identifiers) {
+            for (const { hash } of await getIdentifierHashes(identifier.value)) {
+                await adapter.delete?.({
+                    model: "blockedIdentifier",
+                    where: [
+                        { field: "identifierHash", value: hash },
+                        { field: "type", value: identifier.type },
+                    ],
+                });
+            }
+        }
+    };
+    // Outbox rows are written in the same transaction as the state change (see `runInTransaction`), one per endpoint
+    // so each has its own retry state. `deliverWebhooks` sends them later, so a crash after the update does not lose the event.
+    const enqueueWebhooks = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        event: SoftDeletionActor & {
+            type: SoftDeletionEventType;
+            userId?: string | number | null;
+            metadata?: Record<string, unknown>;
+        },
+    ) => {
+        const endpoints = webhookEndpoints.filter((endpoint) =>
+            (endpoint.events ?? transitionEventTypes).includes(event.type),
+        );
+        if (endpoints.length === 0) return;
+        const createdAt = new Date();
+        const payload: WebhookPayload = {
+            id: generateToken(16),
+            type: event.type,
+            createdAt: createdAt.toISOString(),
+            data: {
+                userId: event.userId == null ? null : String(event.userId),
+                actor: event.actor,
+                actorId: event.actorId == null ? null : String(event.actorId),
+                ...(event.metadata ? { metadata: event.metadata } : {}),
+            },
+        };
+        for (const endpoint of endpoints) {
+            await adapter.create?.({
+                model: "softDeletionWebhook",
+                data: {
+                    url: endpoint.url,
+                    eventType: event.type,
+                    payload: JSON.stringify(payload),
+                    status: "pending",
+                    attempts: 0,
+                    nextAttemptAt: createdAt,
+                    createdAt,
+                },
+            });
+        }
+    };
+    const sendWebhook = async (webhook: SoftDeletionWebhookRecord) => {
+        const endpoint = webhookEndpoints.find((candidate) => candidate.url === webhook.url);
+        if (!endpoint) {
+            throw new Error("Webhook endpoint is no longer configured.");
+        }
+        const payload = JSON.parse(webhook.payload) as WebhookPayload;
+        const timestamp = Math.floor(Date.now() / 1000);
+        const signature = await signWebhookPayload(webhook.payload, timestamp, endpoint.secret);
+        const response = await fetch(webhook.url, {
+            method: "POST",
+            headers: {
+                "content-type": "application/json",
+                "x-soft-deletion-event-id": payload.id,
+                "x-soft-deletion-signature": `t=${timestamp},v1=${signature}`,
+            },
+            body: webhook.payload,
+            signal: AbortSignal.timeout(webhookTimeoutMs),
+        });
+        if (!response.ok) {
+            throw new Error(`Webhook endpoint responded with ${response.status}.`);
+        }
+    };
+    // Audit rows keep the user id as plain text (no foreign key) so they outlive purged users.
+    const recordEvent = async (
+        ctx: SoftDeletionHookContext | null | undefined,
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        event: SoftDeletionActor & {
+            type: SoftDeletionEventType;
+            userId?: string | number | null;
+            metadata?: Record<string, unknown>;
+        },
+    ) => {
+        if (auditEvents) {
+            const headers = ctx?.headers ?? ctx?.request?.headers;
+            const authOptions = ctx?.context?.options ?? initContext?.options;
+            await adapter.create?.({
+                model: "softDeletionEvent",
+                data: {
+                    type: event.type,
+                    userId: event.userId == null ? null : String(event.userId),
+                    actor: event.actor,
+                    actorId: event.actorId == null ? null : String(event.actorId),
+                    ipAddress: headers && authOptions ? getIP(headers, authOptions) : null,
+                    userAgent: headers?.get("user-agent") ?? null,
+                    metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+                    createdAt: new Date(),
+                },
+            });
+        }
+        if (transitionEventTypes.includes(event.type)) {
+            await enqueueWebhooks(adapter, event);
+        }
+    };
+    // Status changes and their event/outbox rows commit together. Adapters without transactions run the callback as is.
+    const runInTransaction = <R>(
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        callback: (trx: SoftDeletionHookContext["context"]["adapter"]) => Promise<R>,
+    ) => (adapter.transaction ? adapter.transaction(callback) : callback(adapter));
+    // `/delete-user` is "self"; other paths that delete users (e.g. admin plugin remove-user) act on someone else.
+    const getRequestActor = (ctx: SoftDeletionHookContext | null | undefined, userId: string | number): SoftDeletionActor => {
+        const sessionUserId = ctx?.context?.session?.user?.id;
+        if (sessionUserId == null) return { actor: "system" };
+        return { actor: String(sessionUserId) === String(userId) ? "self" : "admin", actorId: sessionUserId };
+    };
+    // Restore attempt counters, keyed by email hash and by client IP. The email uses the current keyed hash, like
+    // blocked identifiers; counters are short-lived, so a key rotation simply starts them over.
+    const getRestoreAttemptKeys = async (ctx: SoftDeletionHookContext, email: string) => {
+        const [current] = await getIdentifierHashes(normalizeEmail(email));
+        const keys = current ? [`email:${current.hash}`] : [];
+        const headers = ctx.headers ?? ctx.request?.headers;
+        const authOptions = ctx.context.options ?? initContext?.options;
+        const ip = headers && authOptions ? getIP(headers, authOptions) : null;
+        if (ip) keys.push(`ip:${ip}`);
+        return keys;
+    };
+    const useSecondaryStorageForAttempts = (context: SoftDeletionHookContext["context"]) =>
+        lockoutOptions?.storage ? lockoutOptions.storage === "secondary-storage" : !!context.secondaryStorage;
+    const readRestoreAttempts = async (
+        context: SoftDeletionHookContext["context"],
+        key: string,
+    ): Promise<RestoreAttemptState> => {
+        const empty: RestoreAttemptState = { failures: [], lockoutCount: 0, lockedUntil: null };
+        if (useSecondaryStorageForAttempts(context)) {
+            const raw = await context.secondaryStorage?.get(`${restoreAttemptPrefix}${key}`);
+            return typeof raw === "string" ? (JSON.parse(raw) as RestoreAttemptState) : empty;
+        }
+        const row = (await context.adapter.findOne({
+            model: "restoreAttempt",
+            where: [{ field: "key", value: key }],
+        })) as { failures: string; lockoutCount: number; lockedUntil?: Date | string | null } | null;
+        if (!row) return empty;
+        return {
+            failures: JSON.parse(row.failures) as number[],
+            lockoutCount: Number(row.lockoutCount),
+            lockedUntil: row.lockedUntil ? new Date(row.lockedUntil).getTime() : null,
+        };
+    };
+    const writeRestoreAttempts = async (
+        context: SoftDeletionHookContext["context"],
+        key: string,
+        state: RestoreAttemptState,
+    ) => {
+        // Keep the state (and so the lockout escalation) until a full window has passed after the last lock.
+        const expiresAt = new Date(Math.max(Date.now(), state.lockedUntil ?? 0) + lockoutWindowMs);
+        if (useSecondaryStorageForAttempts(context)) {
+            await context.secondaryStorage?.set(
+                `${restoreAttemptPrefix}${key}`,
+                JSON.stringify(state),
+                Math.ceil((expiresAt.getTime() - Date.now()) / 1000),
+            );
+            return;
+        }
+        const data = {
+            failures: JSON.stringify(state.failures),
+            lockoutCount: state.lockoutCount,
+            lockedUntil: state.lockedUntil ? new Date(state.lockedUntil) : null,
+            expiresAt,
+        };
+        const where = [{ field: "key", value: key }];
+        if (await context.adapter.findOne({ model: "restoreAttempt", where })) {
+            await context.adapter.update({ model: "restoreAttempt", where, update: data });
+        } else {
+            await context.adapter.create?.({ model: "restoreAttempt", data: { key, ...data } });
+        }
+    };
+    const assertRestoreNotLocked = async (ctx: SoftDeletionHookContext, keys: string[]) => {
+        const now = Date.now();
+        for (const key of keys) {
+            const { lockedUntil } = await readRestoreAttempts(ctx.context, key);
+            if (lockedUntil && lockedUntil > now) {
+                throw new APIError(
+                    "TOO_MANY_REQUESTS",
+                    SOFT_DELETION_ERROR_CODES.RESTORE_RATE_LIMITED,
+                    { "Retry-After": String(Math.ceil((lockedUntil - now) / 1000)) },
+                );
+            }
+        }
+    };
+    const recordRestoreFailure = async (ctx: SoftDeletionHookContext, keys: string[]) => {
+        const now = Date.now();
+        for (const key of keys) {
+            const state = await readRestoreAttempts(ctx.context, key);
+            state.failures = [...state.failures.filter((at) => at > now - lockoutWindowMs), now];
+            if (state.failures.length >= lockoutMaxAttempts) {
+                state.lockedUntil = now + Math.min(lockoutBaseMs * 2 ** state.lockoutCount, 24 * 60 * 60 * 1000);
+                state.lockoutCount++;
+                state.failures = [];
+            }
+            await writeRestoreAttempts(ctx.context, key, state);
+        }
+    };
+    const clearRestoreAttempts = async (ctx: SoftDeletionHookContext, keys: string[]) => {
+        for (const key of keys) {
+            if (useSecondaryStorageForAttempts(ctx.context)) {
+                await ctx.context.secondaryStorage?.delete(`${restoreAttemptPrefix}${key}`);
+            } else {
+                await ctx.context.adapter.delete?.({ model: "restoreAttempt", where: [{ field: "key", value: key }] });
+            }
+        }
+    };
+    // Returns the built-in lockout keys for `email`, to pass to `recordRestoreFailure`/`clearRestoreAttempts`.
+    const checkRestoreRateLimit = async (ctx: SoftDeletionHookContext, email: string) => {
+        if (options?.restoreRateLimit) {
+            const decision = await options.restoreRateLimit({
+                email,
+                context: ctx,
+            });
+
+            const blocked =
+                decision === false ||
+                (typeof decision === "object" &&
+                    decision !== null &&
+                    "allowed" in decision &&
+                    decision.allowed === false);
+
+            if (blocked) {
+                const payload =
+                    typeof decision === "object" && decision !== null
+                        ? decision
+                        : undefined;
+
+                throw new APIError("TOO_MANY_REQUESTS", {
+                    code: payload?.code || SOFT_DELETION_ERROR_CODES.RESTORE_RATE_LIMITED.code,
+                    message: payload?.message || SOFT_DELETION_ERROR_CODES.RESTORE_RATE_LIMITED.message,
+                    status: payload?.status || 429,
+                });
+            }
+        }
+
+        // Built-in limiter; a custom `restoreRateLimit` callback replaces it.
+        const attemptKeys =
+            lockoutOptions && !options?.restoreRateLimit ? await getRestoreAttemptKeys(ctx, email) : [];
+        await assertRestoreNotLocked(ctx, attemptKeys);
+        return attemptKeys;
+    };
+    // Reads the `twoFactor` row written by Better Auth's two-factor plugin, decrypted with the auth secret.
+    const storeBackupCodes = twoFactorOptions?.storeBackupCodes ?? "encrypted";
+    const decodeBackupCodes = async (key: string | SecretConfig, data: string) => {
+        if (storeBackupCodes === "plain") return data;
+        if (storeBackupCodes === "encrypted") return symmetricDecrypt({ key, data });
+        return storeBackupCodes.decrypt(data);
+    };
+    const encodeBackupCodes = async (key: string | SecretConfig, data: string) => {
+        if (storeBackupCodes === "plain") return data;
+        if (storeBackupCodes === "encrypted") return symmetricEncrypt({ key, data });
+        return storeBackupCodes.encrypt(data);
+    };
+    const verifyTwoFactorCode = async (
+        context: SoftDeletionHookContext["context"],
+        userId: string | number,
+        code: string,
+        method: "totp" | "backup_code",
+    ) => {
+        const key = context.secretConfig ?? context.secret;
+        const where = [{ field: "userId", value: userId }];
+        const twoFactor = (await context.adapter.findOne({
+            model: "twoFactor",
+            where,
+        })) as SoftDeletionTwoFactorRecord | null;
+        if (!key || !twoFactor) return false;
+
+        if (method === "totp") {
+            if (!twoFactor.secret) return false;
+            const secret = await symmetricDecrypt({ key, data: twoFactor.secret });
+            return verifyTotp(code, secret, {
+                ...(twoFactorOptions?.digits ? { digits: twoFactorOptions.digits } : {}),
+                ...(twoFactorOptions?.period ? { period: twoFactorOptions.period } : {}),
+            });
+        }
+
+        if (!twoFactor.backupCodes) return false;
+        const codes = JSON.parse(await decodeBackupCodes(key, twoFactor.backupCodes)) as string[];
+        if (!codes.includes(code)) return false;
+        // Backup codes are single-use.
+        await context.adapter.update({
+            model: "twoFactor",
+            where,
+            update: {
+                backupCodes: await encodeBackupCodes(key, JSON.stringify(codes.filter((value) => value !== code))),
+            },
+        });
+        return true;
+    };
+    // Stored in `verification` and completed through `/soft-deletion/restore/two-factor`.
+    const createTwoFactorChallenge = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        userId: string | number,
+    ): Promise<RestoreAccountTwoFactorChallenge> => {
+        const challengeToken = generateToken();
+        await adapter.create?.({
+            model: "verification",
+            data: {
+                identifier: `${twoFactorChallengePrefix}${challengeToken}`,
+                value: JSON.stringify({ userId, attempts: 0 }),
+                expiresAt: new Date(Date.now() + twoFactorChallengeExpiresIn * 1000),
+            },
+        });
+        return { twoFactorRequired: true, challengeToken };
+    };
+    // Anonymized users are past the restore window but are still deleted accounts.
+    const isDeletedStatus = (status?: string | null) => status === "deleted" || status === "anonymized";
+    // Paths that create a session after verifying credentials: password and social sign-in, and OAuth callbacks.
+    const isSignInPath = (path?: string) =>
+        !!path && (path.startsWith("/sign-in") || path.startsWith("/callback/") || path.startsWith("/oauth2/callback/"));
+    const canRestoreOnSignIn = (user: SoftDeletionUserRecord | null, path?: string): user is SoftDeletionUserRecord =>
+        restoreOnSignIn &&
+        isSignInPath(path) &&
+        user?.status === "deleted" &&
+        isRestoreWindowOpen(user.deletedAt) &&
+        // A password alone must not restore an account that needs a second factor.
+        !(twoFactorOptions && user.twoFactorEnabled);
+    const assertUserNotDeleted = async (
+        user: SoftDeletionUserRecord | null,
+        ctx: SoftDeletionHookContext | null | undefined,
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+    ) => {
+        if (user && isDeletedStatus(user.status)) {
+            await recordEvent(ctx, adapter, {
+                type: "sign_in_blocked",
+                userId: user.id,
+                actor: "self",
+                metadata: { path: ctx?.path },
+            });
+            await options?.onBlockedSignIn?.(toDeletedUserSummary(user), ctx?.request);
+            throw new APIError("FORBIDDEN", {
+                ...SOFT_DELETION_ERROR_CODES.ACCOUNT_DELETED,
+                details: getDeletionMetadata(user.deletedAt),
+            });
+        }
+    };
+    // Per-user revocation marker: lets cookie-cached sessions be rejected without a session lookup.
+    // Uses secondary storage when configured, otherwise the user's status is the marker (opt-in, see `cookieCacheStatusCheck`).
+    const markSessionsRevoked = async (
+        context: SoftDeletionHookContext["context"] | undefined,
+        userId: string | number,
+    ) => {
+        await context?.secondaryStorage?.set(
+            `${revokedSessionPrefix}${userId}`,
+            "1",
+            purgeAfterDays * 24 * 60 * 60,
+        );
+    };
+    const clearSessionRevocation = async (
+        context: SoftDeletionHookContext["context"] | undefined,
+        userId: string | number,
+    ) => {
+        await context?.secondaryStorage?.delete(`${revokedSessionPrefix}${userId}`);
+    };
+    const isSessionRevoked = async (
+        context: SoftDeletionHookContext["context"] | null | undefined,
+        userId: string | number,
+    ) => {
+        if (!context) return false;
+        if (context.secondaryStorage) {
+            return Boolean(await context.secondaryStorage.get(`${revokedSessionPrefix}${userId}`));
+        }
+        const user = (await context.adapter.findOne({
+            model: "user",
+            where: [{ field: "id", value: userId }],
+        })) as SoftDeletionUserRecord | null;
+        return !user || isDeletedStatus(user.status);
+    };
+    const canCheckSessionRevocation = (context: SoftDeletionHookContext["context"] | null | undefined) =>
+        !!context?.secondaryStorage || cookieCacheStatusCheck;
+    const cookieCacheVersion = async (_session: unknown, user: { id: string | number }) =>
+        (await isSessionRevoked(initContext, user.id)) ? "revoked" : "1";
+    const assertIdentifiersNotBlocked = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        identifiers: SoftDeletionIdentifier[],
+        ctx: SoftDeletionHookContext | null | undefined,
+    ) => {
+        for (const identifier of identifiers) {
+            if (!blockedIdentifierTypes.includes(identifier.type)) continue;
+
+            // DB-based blocked identifier check
+            const blocked = (await findBlockedIdentifier(adapter, identifier))?.row;
+
+            if (!blocked) continue;
+            if (blocked.expiresAt && new Date(blocked.expiresAt) < new Date()) continue;
+            await recordEvent(ctx, adapter, {
+                type: "sign_up_blocked",
+                actor: "self",
+                metadata: { identifierType: identifier.type, path: ctx?.path },
+            });
+            const error = blockedIdentifierErrors[identifier.type];
+            await options?.onBlockedSignUp?.({ identifier, code: error.code }, ctx?.request);
+            throw new APIError("FORBIDDEN", error);
+        }
+    };
+    // Same role format as the admin plugin: `user.role` may hold several comma-separated roles.
+    const assertAdmin = (context: SoftDeletionHookContext["context"]): SoftDeletionActor => {
+        const user = context.session?.user;
+        const roles = (user?.role ?? "").split(",").map((role) => role.trim());
+        const isAdmin =
+            !!user &&
+            (options?.adminUserIds?.includes(String(user.id)) || roles.some((role) => adminRoles.includes(role)));
+        if (!isAdmin) {
+            throw new APIError("FORBIDDEN", SOFT_DELETION_ERROR_CODES.ADMIN_ROLE_REQUIRED);
+        }
+        return { actor: "admin", actorId: user.id };
+    };
+    const findDeletedUser = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        userId: string,
+    ) => {
+        const user = (await adapter.findOne({
+            model: "user",
+            where: [{ field: "id", value: userId }],
+        })) as SoftDeletionUserRecord | null;
+        if (!user || !isDeletedStatus(user.status)) {
+            throw new APIError("NOT_FOUND", SOFT_DELETION_ERROR_CODES.DELETED_USER_NOT_FOUND);
+        }
+        return user;
+    };
+    const toDeletedUserSummary = (user: SoftDeletionUserRecord): DeletedUserSummary => ({
+        user,
+        ...getDeletionMetadata(user.deletedAt),
+    });
+    const restoreUser = async (
+        ctx: SoftDeletionHookContext,
+        user: SoftDeletionUserRecord,
+        actor: SoftDeletionActor,
+    ) => {
+        const context = ctx.context;
+        const adapter = context.adapter;
+        const data = { user, ...getDeletionMetadata(user.deletedAt), ...actor };
+        await options?.beforeRestore?.(data, ctx.request);
+        await runInTransaction(adapter, async (trx) => {
+            await trx.update({
+                model: "user",
+                where: [{ field: "id", value: user.id }],
+                update: {
+                    status: "active",
+                    deletedAt: null,
+                    deletionReason: null,
+                    deletionFeedback: null,
+                    deletionEffectiveAt: null,
+                },
+            });
+            await clearBlockedIdentifiers(trx, await collectUserIdentifiers(trx, user));
+            await reinstateMemberships(trx, user.id);
+            await recordEvent(ctx, trx, { type: "restored", userId: user.id, ...actor });
         });
+        await clearSessionRevocation(context, user.id);
+        await options?.onRestore?.(data, ctx.request);
     };
     const revokeAllUserSessions = async (ctx: SoftDeletionHookContext, userId: string | number) => {
         const internalAdapter = ctx?.context?.internalAdapter;
-        if (internalAdapter?.deleteSessions) {
-            await internalAdapter.deleteSessions(userId);
+        if (internalAdapter?.deleteUserSessions) {
+            await internalAdapter.deleteUserSessions(userId);
             return;
         }
 
@@ -73,97 +883,487 @@ export const softDeletion = (options?: SoftDeletionOptions) => {
             where: [{ field: "userId", value: userId }],
         });
     };
+    // Soft deletion for `models`. Other plugins (organization, api-key, passkey...) call the adapter directly rather
+    // than through database hooks, so the adapter itself is wrapped in `init`: deletes become `deletedAt` updates
+    // and reads skip deleted rows. Updates and creates pass through, and joins are not filtered.
+    const rawAdapters = new WeakMap<object, SoftDeletionAdapter>();
+    const getRawAdapter = (adapter: SoftDeletionAdapter) => rawAdapters.get(adapter) ?? adapter;
+    const isSoftDeletedModel = (model: string) => softDeletedModels.includes(model);
+    const withoutDeletedRows = (model: string, where?: QueryWhere): QueryWhere | undefined =>
+        isSoftDeletedModel(model) ? [...(where ?? []), { field: "deletedAt", value: null, connector: "AND" }] : where;
+    const withSoftDeletedModels = <T extends object>(adapter: T): T => {
+        const base = adapter as unknown as Required<SoftDeletionAdapter>;
+        const wrapped = new Proxy(adapter, {
+            get(target, property, receiver) {
+                switch (property) {
+                    case "findOne":
+                    case "findMany":
+                    case "count":
+                        return (input: { model: string; where?: QueryWhere }) =>
+                            (base[property] as (input: unknown) => Promise<unknown>)({
+                                ...input,
+                                where: withoutDeletedRows(input.model, input.where),
+                            });
+                    case "delete":
+                        return async (input: { model: string; where: QueryWhere }) => {
+                            if (!isSoftDeletedModel(input.model)) return base.delete(input);
+                            await base.update({
+                                model: input.model,
+                                where: withoutDeletedRows(input.model, input.where) ?? [],
+                                update: { deletedAt: new Date() },
+                            });
+                        };
+                    case "deleteMany":
+                        return (input: { model: string; where: QueryWhere }) =>
+                            isSoftDeletedModel(input.model)
+                                ? base.updateMany({
+                                      model: input.model,
+                                      where: withoutDeletedRows(input.model, input.where) ?? [],
+                                      update: { deletedAt: new Date() },
+                                  })
+                                : base.deleteMany(input);
+                    case "transaction":
+                        if (!base.transaction) return undefined;
+                        return (callback: (trx: object) => Promise<unknown>) =>
+                            base.transaction((trx) => callback(withSoftDeletedModels(trx)));
+                    default:
+                        return Reflect.get(target, property, receiver);
+                }
+            },
+        });
+        rawAdapters.set(wrapped, base);
+        return wrapped;
+    };
+    const assertSoftDeletedModel = (model: string) => {
+        if (!isSoftDeletedModel(model)) {
+            throw new APIError("BAD_REQUEST", {
+                code: SOFT_DELETION_ERROR_CODES.MODEL_NOT_SOFT_DELETED.code,
+                message: `Model "${model}" is not listed in the soft deletion \`models\` option.`,
+            });
+        }
+    };
+    const findDeletedModelRecord = async (adapter: SoftDeletionAdapter, model: string, id: string) => {
+        const where: QueryWhere = [
+            { field: "id", value: id },
+            { field: "deletedAt", value: null, operator: "ne" },
+        ];
+        if (!(await getRawAdapter(adapter).findOne({ model, where }))) {
+            throw new APIError("NOT_FOUND", SOFT_DELETION_ERROR_CODES.DELETED_RECORD_NOT_FOUND);
+        }
+        return where;
+    };
+    // Fields added to models owned by Better Auth or other plugins.
+    const additionalModelSchema: BetterAuthPluginDBSchema = {};
+    const addModelFields = (model: string, fields: Record<string, DBFieldAttribute>) => {
+        additionalModelSchema[model] = { fields: { ...additionalModelSchema[model]?.fields, ...fields } };
+    };
+    for (const model of softDeletedModels) {
+        addModelFields(model, { deletedAt: { type: "date", required: false } });
+    }
+    // Only with the organization plugin, which owns these models.
+    if (organizationOptions) {
+        addModelFields("member", { status: { type: "string", required: false, defaultValue: "active" } });
+        addModelFields("organization", {
+            status: { type: "string", required: false, defaultValue: "active" },
+            deletedAt: { type: "date", required: false },
+        });
+    }
+    // Organization member roles are comma-separated, like user roles in the admin plugin.
+    const getMemberRoles = (member: SoftDeletionMemberRecord) => member.role.split(",").map((role) => role.trim());
+    const findUserMemberships = async (adapter: SoftDeletionHookContext["context"]["adapter"], userId: string | number) =>
+        ((await adapter.findMany?.({
+            model: "member",
+            where: [{ field: "userId", value: userId }],
+        })) ?? []) as SoftDeletionMemberRecord[];
+    // Decides what `onSoleOwner` does with each organization the user owns alone, without writing anything,
+    // so a refusal leaves no half-done transfer behind.
+    const planOrganizationHandover = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        userId: string | number,
+    ) => {
+        const plan: Array<{ organizationId: string | number; newOwner: SoftDeletionMemberRecord | null }> = [];
+        if (!organizationOptions) return plan;
+
+        const blockingOrganizationIds: Array<string | number> = [];
+        for (const membership of await findUserMemberships(adapter, userId)) {
+            if (membership.status === "inactive" || !getMemberRoles(membership).includes(organizationOwnerRole)) continue;
+            const otherMembers = (
+                ((await adapter.findMany?.({
+                    model: "member",
+                    where: [{ field: "organizationId", value: membership.organizationId }],
+                    sortBy: { field: "createdAt", direction: "asc" },
+                })) ?? []) as SoftDeletionMemberRecord[]
+            ).filter((member) => String(member.userId) !== String(userId) && member.status !== "inactive");
+            if (otherMembers.some((member) => getMemberRoles(member).includes(organizationOwnerRole))) continue;
+
+            const newOwner =
+                soleOwnerPolicy === "transfer"
+                    ? (otherMembers.find((member) => getMemberRoles(member).includes(organizationAdminRole)) ?? null)
+                    : null;
+            if (soleOwnerPolicy === "refuse" || (soleOwnerPolicy === "transfer" && !newOwner)) {
+                blockingOrganizationIds.push(membership.organizationId);
+            }
+            plan.push({ organizationId: membership.organizationId, newOwner });
+        }
+
+        if (blockingOrganizationIds.length > 0) {
+            throw new APIError("BAD_REQUEST", {
+                ...SOFT_DELETION_ERROR_CODES.SOLE_OWNER,
+                details: { organizationIds: blockingOrganizationIds },
+            });
+        }
+        return plan;
+    };
+    const applyOrganizationHandover = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        userId: string | number,
+        plan: Awaited<ReturnType<typeof planOrganizationHandover>>,
+        deletedAt: Date,
+    ) => {
+        if (!organizationOptions) return;
+        for (const { organizationId, newOwner } of plan) {
+            if (newOwner) {
+                await adapter.update({
+                    model: "member",
+                    where: [{ field: "id", value: newOwner.id }],
+                    update: {
+                        role: getMemberRoles(newOwner)
+                            .map((role) => (role === organizationAdminRole ? organizationOwnerRole : role))
+                            .join(","),
+                    },
+                });
+            } else {
+                await adapter.update({
+                    model: "organization",
+                    where: [{ field: "id", value: organizationId }],
+                    update: { status: "deleted", deletedAt },
+                });
+            }
+        }
+        for (const membership of await findUserMemberships(adapter, userId)) {
+            await adapter.update({
+                model: "member",
+                where: [{ field: "id", value: membership.id }],
+                update: { status: "inactive" },
+            });
+        }
+    };
+    // Organizations soft deleted with their sole owner come back with that owner.
+    const reinstateMemberships = async (adapter: SoftDeletionHookContext["context"]["adapter"], userId: string | number) => {
+        if (!organizationOptions) return;
+        for (const membership of await findUserMemberships(adapter, userId)) {
+            if (membership.status !== "inactive") continue;
+            await adapter.update({
+                model: "member",
+                where: [{ field: "id", value: membership.id }],
+                update: { status: "active" },
+            });
+            if (!getMemberRoles(membership).includes(organizationOwnerRole)) continue;
+            const organizationWhere = [{ field: "id", value: membership.organizationId }];
+            const organization = (await getRawAdapter(adapter).findOne({
+                model: "organization",
+                where: organizationWhere,
+            })) as SoftDeletionOrganizationRecord | null;
+            if (organization?.status === "deleted") {
+                await adapter.update({
+                    model: "organization",
+                    where: organizationWhere,
+                    update: { status: "active", deletedAt: null },
+                });
+            }
+        }
+    };
+    // Grace period: the account stays usable (no session revocation, no identifier block) until
+    // `processPendingDeletions` soft deletes it, unless the user cancels first.
+    const scheduleDeletion = async (
+        ctx: SoftDeletionHookContext,
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        user: SoftDeletionUserRecord,
+        actor: SoftDeletionActor,
+        details?: DeletionDetails,
+    ) => {
+        const effectiveAt = addDays(new Date(), gracePeriodDays);
+        await options?.beforeSoftDelete?.({ user, ...getDeletionMetadata(effectiveAt), ...actor, ...details }, ctx.request);
+        // Fail now rather than when the sweep runs; the handover itself happens when the deletion takes effect.
+        await planOrganizationHandover(adapter, user.id);
+        await runInTransaction(adapter, async (trx) => {
+            await trx.update({
+                model: "user",
+                where: [{ field: "id", value: user.id }],
+                update: {
+                    status: "pending_deletion",
+                    deletionEffectiveAt: effectiveAt,
+                    deletionReason: details?.reason ?? null,
+                    deletionFeedback: details?.feedback || null,
+                },
+            });
+            await recordEvent(ctx, trx, {
+                type: "deletion_scheduled",
+                userId: user.id,
+                ...actor,
+                metadata: { effectiveAt: effectiveAt.toISOString() },
+            });
+        });
+    };
+    // Details stored when a deletion was scheduled, carried over when it takes effect.
+    const getStoredDeletionDetails = (user: SoftDeletionUserRecord): DeletionDetails => ({
+        ...(user.deletionReason ? { reason: user.deletionReason } : {}),
+        ...(user.deletionFeedback ? { feedback: user.deletionFeedback } : {}),
+    });
+    // Shared by the `/delete-user` hook and `auth.api.softDeleteUser`. Account rows are kept so restore can
+    // verify the password and the user can sign in with the same providers again.
+    const softDeleteUser = async (
+        ctx: SoftDeletionHookContext,
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        user: SoftDeletionUserRecord,
+        actor: SoftDeletionActor,
+        details?: DeletionDetails,
+    ) => {
+        const deletedAt = new Date();
+        const metadata = getDeletionMetadata(deletedAt);
+        const reason = details?.reason;
+        const data = { user, ...metadata, ...actor, ...details };
+        await options?.beforeSoftDelete?.(data, ctx.request);
+        const organizationHandover = await planOrganizationHandover(adapter, user.id);
+
+        // Revoke all active sessions immediately for this user.
+        await revokeAllUserSessions(ctx, user.id);
+        await markSessionsRevoked(ctx.context, user.id);
+
+        // Soft delete instead of hard delete
+        await runInTransaction(adapter, async (trx) => {
+            await trx.update({
+                model: "user",
+                where: [{ field: "id", value: user.id }],
+                update: {
+                    status: "deleted",
+                    deletedAt,
+                    deletionReason: reason ?? null,
+                    deletionFeedback: details?.feedback || null,
+                },
+            });
+            await applyOrganizationHandover(trx, user.id, organizationHandover, deletedAt);
+
+            if (blockReRegistration) {
+                await blockIdentifiers(trx, await collectUserIdentifiers(trx, user));
+            }
+            await recordEvent(ctx, trx, {
+                type: "deleted",
+                userId: user.id,
+                ...actor,
+                ...(reason ? { metadata: { reason } } : {}),
+            });
+        });
+        await options?.onSoftDelete?.(data, ctx.request);
+        return metadata;
+    };
+    // Restore by id for admins and server code: no password and no restore window, but anonymized users stay gone.
+    const restoreDeletedUserById = async (ctx: SoftDeletionHookContext, userId: string, actor: SoftDeletionActor) => {
+        const user = await findDeletedUser(ctx.context.adapter, userId);
+        if (user.status === "anonymized") {
+            throw new APIError("FORBIDDEN", {
+                ...SOFT_DELETION_ERROR_CODES.RESTORE_WINDOW_EXPIRED,
+                details: getDeletionMetadata(user.deletedAt),
+            });
+        }
+        await restoreUser(ctx, user, actor);
+    };
+    const deleteUserData = async (
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        user: SoftDeletionUserRecord,
+    ) => {
+        await adapter.deleteMany?.({
+            model: "session",
+            where: [{ field: "userId", value: user.id }],
+        });
+        await adapter.deleteMany?.({
+            model: "account",
+            where: [{ field: "userId", value: user.id }],
+        });
+        // Verification rows are keyed by identifier; password reset and delete-account tokens store the user id as value.
+        await adapter.deleteMany?.({
+            model: "verification",
+            where: [{ field: "value", value: String(user.id) }],
+        });
+        if (user.email) {
+            await adapter.deleteMany?.({
+                model: "verification",
+                where: [{ field: "identifier", value: user.email }],
+            });
+        }
+        if (organizationOptions) {
+            await adapter.deleteMany?.({
+                model: "member",
+                where: [{ field: "userId", value: user.id }],
+            });
+        }
+    };
+    const expireUser = async (
+        ctx: SoftDeletionHookContext,
+        adapter: SoftDeletionHookContext["context"]["adapter"],
+        user: SoftDeletionUserRecord,
+        actor: SoftDeletionActor,
+    ) => {
+        const data = { user, ...getDeletionMetadata(user.deletedAt), ...actor, onExpire };
+        await options?.beforePurge?.(data, ctx.request);
+        const expired = await runInTransaction(adapter, async (trx) => {
+            // Re-read inside the transaction so a restore that raced the purge keeps the user and their data.
+            const current = (await trx.findOne({
+                model: "user",
+                where: [{ field: "id", value: user.id }],
+            })) as SoftDeletionUserRecord | null;
+            if (current?.status !== "deleted") return false;
+
+            const where = [
+                { field: "id", value: user.id },
+                { field: "status", value: "deleted" },
+            ];
+            if (onExpire === "anonymize") {
+                const extraFields = Object.fromEntries((options?.anonymizeFields ?? []).map((field) => [field, null]));
+                await trx.update({
+                    model: "user",
+                    where,
+                    update: {
+                        ...extraFields,
+                        // `.invalid` is reserved, so the tombstone can never collide with a real sign-up.
+                        email: `deleted-${user.id}@anonymized.invalid`,
+                        name: "Deleted user",
+                        image: null,
+                        deletionReason: null,
+                        deletionFeedback: null,
+                        deletionEffectiveAt: null,
+                        status: "anonymized",
+                    },
+                });
+                await deleteUserData(trx, user);
+                await recordEvent(ctx, trx, { type: "anonymized", userId: user.id, ...actor });
+            } else {
+                await trx.delete?.({ model: "user", where });
+                await deleteUserData(trx, user);
+                await recordEvent(ctx, trx, { type: "purged", userId: user.id, ...actor });
+            }
+            return true;
+        });
+        if (expired) await options?.onPurge?.(data, ctx.request);
+        return expired;
+    };
     return {
         id: "SoftDeletion",
-        init: () => ({
-            options: {
-                databaseHooks: {
-                    account: {
-                        delete: {
-                            before: async (account, ctx) => {
-                                const parsedCtx = toHookContext(ctx);
-                                const parsedAccount = account as SoftDeletionAccountRecord | undefined;
-                                // Keep credential account row during soft delete so restore can verify password.
-                                if (parsedCtx?.path === "/delete-user" && parsedAccount?.providerId === "credential") {
-                                    return false;
-                                }
+        $ERROR_CODES: SOFT_DELETION_ERROR_CODES,
+        init: (authCtx) => {
+            initContext = toAuthContext(authCtx);
+            return {
+                ...(softDeletedModels.length > 0 ? { context: { adapter: withSoftDeletedModels(authCtx.adapter) } } : {}),
+                options: {
+                    // Expire cookie-cached sessions of deleted users on every session read.
+                    // Only applies when the app does not set its own cookieCache.version.
+                    ...(canCheckSessionRevocation(initContext)
+                        ? { session: { cookieCache: { version: cookieCacheVersion } } }
+                        : {}),
+                    databaseHooks: {
+                        session: {
+                            create: {
+                                before: async (session, ctx) => {
+                                    const parsedCtx = toHookContext(ctx);
+                                    // Sessions can be created outside a request (e.g. from auth.api calls); fall back to the init adapter.
+                                    const adapter = parsedCtx?.context?.adapter ?? initContext?.adapter;
+                                    if (!adapter) {
+                                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_ADAPTER_CTX_MISSING);
+                                    }
+
+                                    // Covers every sign-in method (social, magic link, OTP, passkey, phone...)
+                                    // since they all end up creating a session.
+                                    const user = (await adapter.findOne({
+                                        model: "user",
+                                        where: [{ field: "id", value: session.userId }],
+                                    })) as SoftDeletionUserRecord | null;
+                                    if (parsedCtx && canRestoreOnSignIn(user, parsedCtx.path)) {
+                                        await restoreUser(parsedCtx, user, { actor: "self", actorId: user.id });
+                                        // Read by the sign-in after hook to flag the response.
+                                        parsedCtx.context.softDeletionRestoredOnSignIn = true;
+                                        return;
+                                    }
+                                    await assertUserNotDeleted(user, parsedCtx, adapter);
+                                },
                             },
                         },
-                    },
-                    user: {
-                        delete: {
-                            before: async (user, ctx) => {
-                                const parsedCtx = toHookContext(ctx);
-                                if (!parsedCtx) {
-                                    throw new APIError("INTERNAL_SERVER_ERROR", {
-                                        code: "SD_CONTEXT_INVALID",
-                                        message: "Soft deletion context is unavailable.",
-                                    });
-                                }
-                                const parsedUser = user as SoftDeletionUserRecord;
-                                const adapter = parsedCtx?.adapter ?? parsedCtx?.context?.adapter;
-
-                                if (!adapter) {
-                                    throw new APIError("INTERNAL_SERVER_ERROR", {
-                                        code: "SD_ADAPTER_CTX_MISSING",
-                                        message: "Soft deletion adapter context is unavailable.",
-                                    });
-                                }
+                        account: {
+                            create: {
+                                before: async (account, ctx) => {
+                                    const parsedCtx = toHookContext(ctx);
+                                    const adapter = parsedCtx?.context?.adapter ?? initContext?.adapter;
+                                    const value = getAccountIdentifier(account as SoftDeletionAccountRecord);
+                                    if (!adapter || !value) return;
 
-                                // Revoke all active sessions immediately for this user.
-                                await revokeAllUserSessions(parsedCtx, parsedUser.id);
+                                    // Provider account ids survive email changes. OAuth user creation runs in a
+                                    // transaction, so throwing here also rolls back the new user row.
+                                    await assertIdentifiersNotBlocked(adapter, [{ type: "account", value }], parsedCtx);
+                                },
+                            },
+                            delete: {
+                                before: async (_account, ctx) => {
+                                    const parsedCtx = toHookContext(ctx);
+                                    // Keep account rows during soft delete so restore can verify the password and
+                                    // the user can sign in with the same providers again. Purge removes them.
+                                    if (parsedCtx?.path === "/delete-user") {
+                                        return false;
+                                    }
+                                },
+                            },
+                        },
+                        user: {
+                            create: {
+                                before: async (user, ctx) => {
+                                    const parsedCtx = toHookContext(ctx);
+                                    const adapter = parsedCtx?.context?.adapter ?? initContext?.adapter;
+                                    if (!adapter) return;
 
-                                // Soft delete instead of hard delete
-                                await adapter.update({
-                                    model: "user",
-                                    where: [{ field: "id", value: parsedUser.id }],
-                                    update: {
-                                        status: "deleted",
-                                        deletedAt: new Date(),
-                                    },
-                                });
+                                    // Covers every path that inserts a user (OAuth callbacks, magic link, admin createUser...).
+                                    // OAuth callbacks turn the coded APIError into an `?error=EMAIL_BLOCKED` redirect.
+                                    await assertIdentifiersNotBlocked(adapter, getUserIdentifiers(user as SoftDeletionUserRecord), parsedCtx);
+                                },
+                            },
+                            delete: {
+                                before: async (user, ctx) => {
+                                    const parsedCtx = toHookContext(ctx);
+                                    if (!parsedCtx) {
+                                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                                    }
+                                    const parsedUser = user as SoftDeletionUserRecord;
+                                    const adapter = parsedCtx?.adapter ?? parsedCtx?.context?.adapter;
 
-                                if (blockReRegistration && parsedUser.email) {
-                                    const hash = await hashIdentifier(parsedUser.email);
-                                    const expiresAt = new Date();
-                                    expiresAt.setDate(expiresAt.getDate() + retentionDays);
-                                    const where = [
-                                        { field: "identifierHash", value: hash },
-                                        { field: "type", value: "email" },
-                                    ];
-                                    const existing = await adapter.findOne({
-                                        model: "blockedIdentifier",
-                                        where,
-                                    });
-                                    const data = {
-                                        identifierHash: hash,
-                                        type: "email",
-                                        expiresAt,
-                                    };
-                                    if (existing) {
-                                        await adapter.update({
-                                            model: "blockedIdentifier",
-                                            where,
-                                            update: { expiresAt },
-                                        });
-                                    } else {
-                                        // Save to blockedIdentifier table
-                                        await adapter.create?.({
-                                            model: "blockedIdentifier",
-                                            data,
-                                        });
+                                    if (!adapter) {
+                                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_ADAPTER_CTX_MISSING);
                                     }
 
-                                }
+                                    const isSelfDeletion = (parsedCtx.path ?? "").startsWith("/delete-user");
+                                    // Anonymized rows are kept for foreign keys; deleting them again is a no-op.
+                                    // A pending self-deletion already has its effective date; other paths delete it now.
+                                    if (parsedUser.status === "anonymized" || (parsedUser.status === "pending_deletion" && isSelfDeletion)) {
+                                        return false;
+                                    }
+
+                                    const actor = getRequestActor(parsedCtx, parsedUser.id);
+                                    const details =
+                                        parsedCtx.context?.softDeletionDetails ??
+                                        (parsedUser.status === "pending_deletion" ? getStoredDeletionDetails(parsedUser) : undefined);
+                                    // Only self-service deletion gets the grace period; other paths (e.g. admin remove-user) apply immediately.
+                                    if (gracePeriodDays > 0 && isSelfDeletion) {
+                                        await scheduleDeletion(parsedCtx, adapter, parsedUser, actor, details);
+                                        return false;
+                                    }
+
+                                    await softDeleteUser(parsedCtx, adapter, parsedUser, actor, details);
 
-                                // Return false to prevent actual deletion from DB
-                                return false;
+                                    // Return false to prevent actual deletion from DB
+                                    return false;
+                                },
                             },
                         },
                     },
                 },
-            },
-        }),
+            };
+        },
         schema: {
             user: {
                 fields: {
@@ -175,6 +1375,18 @@ export const softDeletion = (options?: SoftDeletionOptions) => {
                         type: "date",
                         required: false,
                     },
+                    deletionReason: {
+                        type: "string",
+                        required: false,
+                    },
+                    deletionFeedback: {
+                        type: "string",
+                        required: false,
+                    },
+                    deletionEffectiveAt: {
+                        type: "date",
+                        required: false,
+                    },
                 },
             },
             blockedIdentifier: {
@@ -187,67 +1399,216 @@ export const softDeletion = (options?: SoftDeletionOptions) => {
                         type: "string",
                         required: true,
                     },
+                    keyVersion: {
+                        type: "string",
+                        required: false,
+                    },
                     expiresAt: {
                         type: "date",
                         required: false,
                     },
                 },
             },
-        },
-        hooks: {
-            before: [
-                {
-                    matcher: (ctx) => (toHookContext(ctx)?.path ?? "").startsWith("/sign-in"),
-                    handler: async (ctx) => {
-                        const parsedCtx = toHookContext(ctx);
-                        if (!parsedCtx) return;
-                        const email = readEmailFromBody(parsedCtx.body);
-                        if (!email) return;
-
-                        const user = (await parsedCtx.context.adapter.findOne({
-                            model: "user",
-                            where: [{ field: "email", value: email }],
-                        })) as SoftDeletionUserRecord | null;
-
-                        if (user && user.status === "deleted") {
-                            throw new APIError("FORBIDDEN", {
-                                code: "ACCOUNT_DELETED",
-                                message: "Your account has been deleted.",
-                                details: getDeletionMetadata(user.deletedAt),
-                            });
-                        }
+            restoreAttempt: {
+                fields: {
+                    key: {
+                        type: "string",
+                        required: true,
+                        unique: true,
                     },
-                },
-                {
-                    matcher: (ctx) => toHookContext(ctx)?.path === "/sign-up/email",
-                    handler: async (ctx) => {
-                        const parsedCtx = toHookContext(ctx);
-                        if (!parsedCtx) return;
+                    failures: {
+                        type: "string",
+                        required: true,
+                    },
+                    lockoutCount: {
+                        type: "number",
+                        required: true,
+                    },
+                    lockedUntil: {
+                        type: "date",
+                        required: false,
+                    },
+                    expiresAt: {
+                        type: "date",
+                        required: true,
+                    },
+                },
+            },
+            softDeletionWebhook: {
+                fields: {
+                    url: {
+                        type: "string",
+                        required: true,
+                    },
+                    eventType: {
+                        type: "string",
+                        required: true,
+                    },
+                    payload: {
+                        type: "string",
+                        required: true,
+                    },
+                    status: {
+                        type: "string",
+                        required: true,
+                    },
+                    attempts: {
+                        type: "number",
+                        required: true,
+                    },
+                    nextAttemptAt: {
+                        type: "date",
+                        required: true,
+                    },
+                    lastError: {
+                        type: "string",
+                        required: false,
+                    },
+                    deliveredAt: {
+                        type: "date",
+                        required: false,
+                    },
+                    createdAt: {
+                        type: "date",
+                        required: true,
+                    },
+                },
+            },
+            softDeletionEvent: {
+                fields: {
+                    type: {
+                        type: "string",
+                        required: true,
+                    },
+                    userId: {
+                        type: "string",
+                        required: false,
+                    },
+                    actor: {
+                        type: "string",
+                        required: true,
+                    },
+                    actorId: {
+                        type: "string",
+                        required: false,
+                    },
+                    ipAddress: {
+                        type: "string",
+                        required: false,
+                    },
+                    userAgent: {
+                        type: "string",
+                        required: false,
+                    },
+                    metadata: {
+                        type: "string",
+                        required: false,
+                    },
+                    createdAt: {
+                        type: "date",
+                        required: true,
+                    },
+                },
+            },
+            ...additionalModelSchema,
+        },
+        hooks: {
+            before: [
+                {
+                    matcher: (ctx) => (toHookContext(ctx)?.path ?? "").startsWith("/sign-in"),
+                    handler: async (ctx) => {
+                        const parsedCtx = toHookContext(ctx);
+                        // In privacy mode the session.create hook rejects deleted users, which only runs after the password check.
+                        if (!parsedCtx || privacyMode) return;
                         const email = readEmailFromBody(parsedCtx.body);
                         if (!email) return;
 
-                        const hash = await hashIdentifier(email);
+                        const user = await findUserByEmail(parsedCtx.context.adapter, email);
+                        // Let the password be checked; the session.create hook restores the account.
+                        if (canRestoreOnSignIn(user, parsedCtx.path)) return;
 
-                        // DB-based blocked identifier check
-                        const blocked = (await parsedCtx.context.adapter.findOne({
-                            model: "blockedIdentifier",
-                            where: [
-                                { field: "identifierHash", value: hash },
-                                { field: "type", value: "email" },
-                            ],
-                        })) as { expiresAt?: Date | string | null } | null;
+                        await assertUserNotDeleted(user, parsedCtx, parsedCtx.context.adapter);
+                    },
+                },
+                {
+                    matcher: (ctx) => toHookContext(ctx)?.path === "/sign-up/email",
+                    handler: async (ctx) => {
+                        const parsedCtx = toHookContext(ctx);
+                        if (!parsedCtx) return;
+                        const identifiers = getUserIdentifiers({
+                            id: "",
+                            email: readEmailFromBody(parsedCtx.body),
+                            username: readStringFromBody(parsedCtx.body, "username"),
+                        });
+                        if (identifiers.length === 0) return;
 
-                        if (blocked) {
-                            if (blocked.expiresAt && blocked.expiresAt < new Date()) {
-                                return;
-                            }
-                            throw new APIError("FORBIDDEN", {
-                                code: "EMAIL_BLOCKED",
-                                message: "This email is not allowed to register.",
-                            });
-                        }
+                        await assertIdentifiersNotBlocked(parsedCtx.context.adapter, identifiers, parsedCtx);
                     },
                 },
+                {
+                    matcher: (ctx) => toHookContext(ctx)?.path === "/delete-user",
+                    handler: createAuthMiddleware(async (ctx) => {
+                        const parsedCtx = toHookContext(ctx);
+                        if (!parsedCtx) return;
+                        const parsed = deleteUserDetailsBodySchema.safeParse(parsedCtx.body ?? {});
+                        if (!parsed.success) {
+                            throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.INVALID_DELETION_DETAILS);
+                        }
+                        const details = parsed.data as DeletionDetails;
+                        if (!details.reason && !details.feedback) return;
+
+                        // `/delete-user` drops unknown body fields, so pass them to the user delete hook through the context.
+                        return { context: { context: { softDeletionDetails: details } } };
+                    }),
+                },
+            ],
+            after: [
+                {
+                    matcher: (ctx) => restoreOnSignIn && isSignInPath(toHookContext(ctx)?.path),
+                    handler: createAuthMiddleware(async (ctx) => {
+                        const parsedCtx = toHookContext(ctx);
+                        if (!parsedCtx?.context.softDeletionRestoredOnSignIn) return;
+                        const returned = parsedCtx.context.returned;
+
+                        // OAuth callbacks answer with a redirect; flag the restore on the target URL.
+                        if (isAPIError(returned)) {
+                            const headers = returned.headers;
+                            if (!(headers instanceof Headers)) return;
+                            const location = headers.get("location");
+                            if (!location) return;
+                            const url = new URL(location, parsedCtx.context.baseURL);
+                            url.searchParams.set("accountRestored", "true");
+                            headers.set("location", url.toString());
+                            return;
+                        }
+
+                        if (!returned || typeof returned !== "object") return;
+                        // The sign-in response carries the user as read before the restore.
+                        const { user } = returned as { user?: SoftDeletionUserRecord };
+                        return parsedCtx.json({
+                            ...returned,
+                            ...(user ? { user: { ...user, status: "active", deletedAt: null } } : {}),
+                            accountRestored: true,
+                        });
+                    }),
+                },
+                {
+                    matcher: (ctx) => toHookContext(ctx)?.path === "/get-session",
+                    handler: createAuthMiddleware(async (ctx) => {
+                        const parsedCtx = toHookContext(ctx);
+                        if (!parsedCtx || !canCheckSessionRevocation(parsedCtx.context)) return;
+                        // Our cookieCache.version already dropped a revoked cache; only check when the app replaced it.
+                        if (parsedCtx.context.options?.session?.cookieCache?.version === cookieCacheVersion) return;
+                        const returned = parsedCtx.context.returned as { user?: SoftDeletionUserRecord } | null | undefined;
+                        const userId = returned?.user?.id;
+                        if (!userId) return;
+
+                        if (await isSessionRevoked(parsedCtx.context, userId)) {
+                            deleteSessionCookie(ctx as Parameters<typeof deleteSessionCookie>[0]);
+                            return parsedCtx.json(null);
+                        }
+                    }),
+                },
             ],
         },
         endpoints: {
@@ -260,109 +1621,935 @@ export const softDeletion = (options?: SoftDeletionOptions) => {
                 async (ctx) => {
                     const parsedCtx = toHookContext(ctx);
                     if (!parsedCtx) {
-                        throw new APIError("INTERNAL_SERVER_ERROR", {
-                            code: "SD_CONTEXT_INVALID",
-                            message: "Soft deletion context is unavailable.",
-                        });
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
                     }
 
                     const parsed = restoreAccountBodySchema.safeParse(parsedCtx.body);
                     if (!parsed.success) {
-                        throw new APIError("BAD_REQUEST", {
-                            code: "RESTORE_INPUT_REQUIRED",
-                            message: "Email and password are required to restore account.",
-                        });
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.RESTORE_INPUT_REQUIRED);
                     }
                     const { email, password } = parsed.data as RestoreAccountInput;
 
-                    if (options?.restoreRateLimit) {
-                        const decision = await options.restoreRateLimit({
-                            email,
-                            context: parsedCtx,
+                    const attemptKeys = await checkRestoreRateLimit(parsedCtx, email);
+
+                    const rejectInvalidCredentials = async (): Promise<never> => {
+                        await recordRestoreFailure(parsedCtx, attemptKeys);
+                        throw new APIError("UNAUTHORIZED", SOFT_DELETION_ERROR_CODES.AUTH_INVALID_CREDENTIALS);
+                    };
+                    const verifyPassword = (hash: string) => parsedCtx.context.password.verify({ hash, password });
+
+                    const user = await findUserByEmail(parsedCtx.context.adapter, email);
+                    const account = user
+                        ? ((await parsedCtx.context.adapter.findOne({
+                              model: "account",
+                              where: [
+                                  { field: "userId", value: user.id },
+                                  { field: "providerId", value: "credential" },
+                              ],
+                          })) as SoftDeletionAccountRecord | null)
+                        : null;
+                    const currentPassword = account?.password;
+
+                    if (privacyMode) {
+                        // Verify a hash on every path and reveal nothing until the password is proven.
+                        const hash = currentPassword ?? (await getDummyPasswordHash(parsedCtx.context.password));
+                        const validPassword = hash ? await verifyPassword(hash) : false;
+                        if (!user || !currentPassword || !validPassword) {
+                            return rejectInvalidCredentials();
+                        }
+                    }
+
+                    if (!user) {
+                        return rejectInvalidCredentials();
+                    }
+
+                    if (user.status === "anonymized") {
+                        throw new APIError("FORBIDDEN", {
+                            ...SOFT_DELETION_ERROR_CODES.RESTORE_WINDOW_EXPIRED,
+                            details: getDeletionMetadata(user.deletedAt),
                         });
+                    }
 
-                        const blocked =
-                            decision === false ||
-                            (typeof decision === "object" &&
-                                decision !== null &&
-                                "allowed" in decision &&
-                                decision.allowed === false);
-
-                        if (blocked) {
-                            const payload =
-                                typeof decision === "object" && decision !== null
-                                    ? decision
-                                    : undefined;
-
-                            throw new APIError("TOO_MANY_REQUESTS", {
-                                code: payload?.code || "RESTORE_RATE_LIMITED",
-                                message: payload?.message || "Too many restore attempts. Please try again later.",
-                                status: payload?.status || 429,
-                            });
+                    if (user.status === "pending_deletion") {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.DELETION_PENDING);
+                    }
+
+                    if (user.status !== "deleted") {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.ACCOUNT_NOT_DELETED);
+                    }
+
+                    if (!privacyMode) {
+                        if (!currentPassword) {
+                            throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.NO_PASSWORD_CREDENTIAL);
+                        }
+                        if (!(await verifyPassword(currentPassword))) {
+                            return rejectInvalidCredentials();
                         }
                     }
 
-                    const user = (await parsedCtx.context.adapter.findOne({
+                    if (!isRestoreWindowOpen(user.deletedAt)) {
+                        throw new APIError("FORBIDDEN", {
+                            ...SOFT_DELETION_ERROR_CODES.RESTORE_WINDOW_EXPIRED,
+                            details: getDeletionMetadata(user.deletedAt),
+                        });
+                    }
+
+                    // Restore must not be weaker than sign-in: finish through `/soft-deletion/restore/two-factor`.
+                    if (twoFactorOptions && user.twoFactorEnabled) {
+                        return parsedCtx.json(await createTwoFactorChallenge(parsedCtx.context.adapter, user.id));
+                    }
+
+                    await restoreUser(parsedCtx, user, { actor: "self", actorId: user.id });
+                    await clearRestoreAttempts(parsedCtx, attemptKeys);
+
+                    return parsedCtx.json({
+                        message: "Account restored successfully.",
+                    });
+                }
+            ),
+            requestAccountRestore: createAuthEndpoint(
+                "/soft-deletion/restore/request",
+                {
+                    method: "POST",
+                    body: requestAccountRestoreBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    if (!options?.sendRestoreEmail) {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.RESTORE_EMAIL_NOT_CONFIGURED);
+                    }
+
+                    const parsed = requestAccountRestoreBodySchema.safeParse(parsedCtx.body);
+                    if (!parsed.success) {
+                        throw new APIError("BAD_REQUEST", {
+                            code: SOFT_DELETION_ERROR_CODES.RESTORE_INPUT_REQUIRED.code,
+                            message: "Email and callback URL are required to request a restore link.",
+                        });
+                    }
+                    const { email, callbackURL } = parsed.data as RequestAccountRestoreInput;
+
+                    const user = await findUserByEmail(parsedCtx.context.adapter, email);
+
+                    // Same response whether or not a link was sent, so the endpoint does not reveal account state.
+                    const response = {
+                        message: "If the account can be restored, a restore link has been sent.",
+                    };
+                    if (!user || user.status !== "deleted" || !isRestoreWindowOpen(user.deletedAt)) {
+                        return parsedCtx.json(response);
+                    }
+
+                    const token = generateToken();
+                    await parsedCtx.context.adapter.create?.({
+                        model: "verification",
+                        data: {
+                            identifier: `${restoreTokenPrefix}${token}`,
+                            value: String(user.id),
+                            expiresAt: new Date(Date.now() + restoreTokenExpiresIn * 1000),
+                        },
+                    });
+
+                    const url = new URL(callbackURL, parsedCtx.context.baseURL);
+                    url.searchParams.set("token", token);
+                    await options.sendRestoreEmail(
+                        { user, url: url.toString(), token },
+                        parsedCtx.request,
+                    );
+
+                    return parsedCtx.json(response);
+                }
+            ),
+            verifyAccountRestore: createAuthEndpoint(
+                "/soft-deletion/restore/verify",
+                {
+                    method: "POST",
+                    body: verifyAccountRestoreBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+
+                    const parsed = verifyAccountRestoreBodySchema.safeParse(parsedCtx.body);
+                    if (!parsed.success) {
+                        throw new APIError("BAD_REQUEST", {
+                            code: SOFT_DELETION_ERROR_CODES.RESTORE_INPUT_REQUIRED.code,
+                            message: "Restore token is required.",
+                        });
+                    }
+                    const { token } = parsed.data as VerifyAccountRestoreInput;
+
+                    const adapter = parsedCtx.context.adapter;
+                    const where = [{ field: "identifier", value: `${restoreTokenPrefix}${token}` }];
+                    const verification = (await adapter.findOne({
+                        model: "verification",
+                        where,
+                    })) as SoftDeletionVerificationRecord | null;
+
+                    if (!verification) {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.INVALID_RESTORE_TOKEN);
+                    }
+                    // Tokens are single-use: consume before doing anything else.
+                    await adapter.delete?.({ model: "verification", where });
+                    if (new Date(verification.expiresAt) < new Date()) {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.INVALID_RESTORE_TOKEN);
+                    }
+
+                    const user = (await adapter.findOne({
                         model: "user",
-                        where: [{ field: "email", value: email }],
+                        where: [{ field: "id", value: verification.value }],
                     })) as SoftDeletionUserRecord | null;
 
-                    if (!user) {
-                        throw new APIError("UNAUTHORIZED", {
-                            code: "AUTH_INVALID_CREDENTIALS",
-                            message: "Invalid email or password.",
+                    if (user?.status === "anonymized") {
+                        throw new APIError("FORBIDDEN", {
+                            ...SOFT_DELETION_ERROR_CODES.RESTORE_WINDOW_EXPIRED,
+                            details: getDeletionMetadata(user.deletedAt),
                         });
                     }
 
-                    if (user.status !== "deleted") {
+                    if (!user || user.status !== "deleted") {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.ACCOUNT_NOT_DELETED);
+                    }
+
+                    if (!isRestoreWindowOpen(user.deletedAt)) {
+                        throw new APIError("FORBIDDEN", {
+                            ...SOFT_DELETION_ERROR_CODES.RESTORE_WINDOW_EXPIRED,
+                            details: getDeletionMetadata(user.deletedAt),
+                        });
+                    }
+
+                    // Access to the inbox is one factor; users with two-factor enabled still prove the second.
+                    if (twoFactorOptions && user.twoFactorEnabled) {
+                        return parsedCtx.json(await createTwoFactorChallenge(adapter, user.id));
+                    }
+
+                    await restoreUser(parsedCtx, user, { actor: "self", actorId: user.id });
+
+                    return parsedCtx.json({
+                        message: "Account restored successfully.",
+                    });
+                }
+            ),
+            verifyRestoreTwoFactor: createAuthEndpoint(
+                "/soft-deletion/restore/two-factor",
+                {
+                    method: "POST",
+                    body: verifyRestoreTwoFactorBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+
+                    const parsed = verifyRestoreTwoFactorBodySchema.safeParse(parsedCtx.body);
+                    if (!parsed.success) {
                         throw new APIError("BAD_REQUEST", {
-                            code: "ACCOUNT_NOT_DELETED",
-                            message: "Account is not deleted.",
+                            code: SOFT_DELETION_ERROR_CODES.RESTORE_INPUT_REQUIRED.code,
+                            message: "Challenge token and code are required.",
                         });
                     }
+                    const { challengeToken, code, method = "totp" } = parsed.data as VerifyRestoreTwoFactorInput;
 
-                    const account = (await parsedCtx.context.adapter.findOne({
-                        model: "account",
-                        where: [
-                            { field: "userId", value: user.id },
-                            { field: "providerId", value: "credential" },
-                        ],
-                    })) as SoftDeletionAccountRecord | null;
+                    const adapter = parsedCtx.context.adapter;
+                    const where = [{ field: "identifier", value: `${twoFactorChallengePrefix}${challengeToken}` }];
+                    const verification = (await adapter.findOne({
+                        model: "verification",
+                        where,
+                    })) as SoftDeletionVerificationRecord | null;
+                    if (!verification || new Date(verification.expiresAt) < new Date()) {
+                        if (verification) await adapter.delete?.({ model: "verification", where });
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.INVALID_TWO_FACTOR_CHALLENGE);
+                    }
+                    const challenge = JSON.parse(verification.value) as { userId: string | number; attempts: number };
 
-                    const currentPassword = account?.password;
-                    if (!currentPassword) {
+                    const user = (await adapter.findOne({
+                        model: "user",
+                        where: [{ field: "id", value: challenge.userId }],
+                    })) as SoftDeletionUserRecord | null;
+                    if (!user || user.status !== "deleted") {
+                        await adapter.delete?.({ model: "verification", where });
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.ACCOUNT_NOT_DELETED);
+                    }
+
+                    const attemptKeys =
+                        lockoutOptions && !options?.restoreRateLimit && user.email
+                            ? await getRestoreAttemptKeys(parsedCtx, user.email)
+                            : [];
+                    await assertRestoreNotLocked(parsedCtx, attemptKeys);
+
+                    if (!(await verifyTwoFactorCode(parsedCtx.context, user.id, code, method))) {
+                        await recordRestoreFailure(parsedCtx, attemptKeys);
+                        const attempts = challenge.attempts + 1;
+                        if (attempts >= twoFactorMaxAttempts) {
+                            await adapter.delete?.({ model: "verification", where });
+                        } else {
+                            await adapter.update({
+                                model: "verification",
+                                where,
+                                update: { value: JSON.stringify({ ...challenge, attempts }) },
+                            });
+                        }
+                        throw new APIError("UNAUTHORIZED", SOFT_DELETION_ERROR_CODES.INVALID_TWO_FACTOR_CODE);
+                    }
+                    await adapter.delete?.({ model: "verification", where });
+
+                    if (!isRestoreWindowOpen(user.deletedAt)) {
+                        throw new APIError("FORBIDDEN", {
+                            ...SOFT_DELETION_ERROR_CODES.RESTORE_WINDOW_EXPIRED,
+                            details: getDeletionMetadata(user.deletedAt),
+                        });
+                    }
+
+                    await restoreUser(parsedCtx, user, { actor: "self", actorId: user.id });
+                    await clearRestoreAttempts(parsedCtx, attemptKeys);
+
+                    return parsedCtx.json({
+                        message: "Account restored successfully.",
+                    });
+                }
+            ),
+            deletionStatus: createAuthEndpoint(
+                "/soft-deletion/status",
+                {
+                    method: "POST",
+                    body: deletionStatusBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+
+                    const parsed = deletionStatusBodySchema.safeParse(parsedCtx.body);
+                    const input = (parsed.success ? parsed.data : {}) as Partial<RestoreAccountInput & VerifyAccountRestoreInput>;
+                    const adapter = parsedCtx.context.adapter;
+                    const findPasswordAccount = async (userId: string | number) =>
+                        (await adapter.findOne({
+                            model: "account",
+                            where: [
+                                { field: "userId", value: userId },
+                                { field: "providerId", value: "credential" },
+                            ],
+                        })) as SoftDeletionAccountRecord | null;
+
+                    let user: SoftDeletionUserRecord | null;
+                    let hasPasswordCredential: boolean;
+                    if (input.token) {
+                        // Peek at a restore link token without consuming it, so the link still restores afterwards.
+                        const verification = (await adapter.findOne({
+                            model: "verification",
+                            where: [{ field: "identifier", value: `${restoreTokenPrefix}${input.token}` }],
+                        })) as SoftDeletionVerificationRecord | null;
+                        if (!verification || new Date(verification.expiresAt) < new Date()) {
+                            throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.INVALID_RESTORE_TOKEN);
+                        }
+                        user = (await adapter.findOne({
+                            model: "user",
+                            where: [{ field: "id", value: verification.value }],
+                        })) as SoftDeletionUserRecord | null;
+                        hasPasswordCredential = user ? Boolean((await findPasswordAccount(user.id))?.password) : false;
+                    } else if (input.email && input.password) {
+                        const { email, password } = input as RestoreAccountInput;
+                        const attemptKeys = await checkRestoreRateLimit(parsedCtx, email);
+                        user = await findUserByEmail(adapter, email);
+                        const currentPassword = user ? (await findPasswordAccount(user.id))?.password : null;
+                        // Always verify a hash so unknown emails take as long as wrong passwords.
+                        const hash = currentPassword ?? (await getDummyPasswordHash(parsedCtx.context.password));
+                        const validPassword = hash ? await parsedCtx.context.password.verify({ hash, password }) : false;
+                        if (!user || !currentPassword || !validPassword) {
+                            await recordRestoreFailure(parsedCtx, attemptKeys);
+                            throw new APIError("UNAUTHORIZED", SOFT_DELETION_ERROR_CODES.AUTH_INVALID_CREDENTIALS);
+                        }
+                        await clearRestoreAttempts(parsedCtx, attemptKeys);
+                        hasPasswordCredential = true;
+                    } else {
                         throw new APIError("BAD_REQUEST", {
-                            code: "NO_PASSWORD_CREDENTIAL",
-                            message: "Password confirmation is not available for this account.",
+                            code: SOFT_DELETION_ERROR_CODES.RESTORE_INPUT_REQUIRED.code,
+                            message: "Email and password, or a restore token, are required.",
                         });
                     }
 
-                    const validPassword = await parsedCtx.context.password.verify({
-                        hash: currentPassword,
-                        password,
+                    if (user?.status === "pending_deletion") {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.DELETION_PENDING);
+                    }
+                    if (!user || !isDeletedStatus(user.status)) {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.ACCOUNT_NOT_DELETED);
+                    }
+
+                    return parsedCtx.json(getDeletionStatus(user, hasPasswordCredential));
+                }
+            ),
+            rehashBlockedIdentifiers: createAuthEndpoint.serverOnly(
+                {
+                    method: "POST",
+                    body: rehashBlockedIdentifiersBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const input = (rehashBlockedIdentifiersBodySchema.parse(parsedCtx.body) ?? {}) as RehashBlockedIdentifiersInput;
+                    const batchSize = input.batchSize ?? 100;
+                    const offset = input.offset ?? 0;
+
+                    // Hashes cannot be converted directly, so re-derive them from the users that still exist.
+                    // Rows of purged users keep matching through `previousKeys` until they expire.
+                    const adapter = parsedCtx.context.adapter;
+                    const users = ((await adapter.findMany?.({
+                        model: "user",
+                        where: [{ field: "status", value: "deleted" }],
+                        limit: batchSize,
+                        offset,
+                        sortBy: { field: "id", direction: "asc" },
+                    })) ?? []) as SoftDeletionUserRecord[];
+
+                    let rehashedCount = 0;
+                    for (const user of users) {
+                        for (const identifier of await collectUserIdentifiers(adapter, user)) {
+                            const [current, ...older] = await getIdentifierHashes(identifier.value);
+                            if (!current) continue;
+                            for (const { hash } of older) {
+                                const where = [
+                                    { field: "identifierHash", value: hash },
+                                    { field: "type", value: identifier.type },
+                                ];
+                                const row = await adapter.findOne({ model: "blockedIdentifier", where });
+                                if (!row) continue;
+                                await adapter.update({
+                                    model: "blockedIdentifier",
+                                    where,
+                                    update: { identifierHash: current.hash, keyVersion: current.keyVersion },
+                                });
+                                rehashedCount++;
+                            }
+                        }
+                    }
+
+                    return parsedCtx.json<RehashBlockedIdentifiersResult>({
+                        scannedUserCount: users.length,
+                        rehashedCount,
+                        nextOffset: offset + users.length,
+                        hasMore: users.length === batchSize,
                     });
-                    if (!validPassword) {
-                        throw new APIError("UNAUTHORIZED", {
-                            code: "AUTH_INVALID_CREDENTIALS",
-                            message: "Invalid email or password.",
+                }
+            ),
+            cancelDeletion: createAuthEndpoint(
+                "/soft-deletion/cancel",
+                {
+                    method: "POST",
+                    use: [sessionMiddleware],
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    const sessionUser = parsedCtx?.context.session?.user;
+                    if (!parsedCtx || !sessionUser) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+
+                    // Read the status from the database; the session user can come from the cookie cache.
+                    const adapter = parsedCtx.context.adapter;
+                    const user = (await adapter.findOne({
+                        model: "user",
+                        where: [{ field: "id", value: sessionUser.id }],
+                    })) as SoftDeletionUserRecord | null;
+                    if (!user || user.status !== "pending_deletion") {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.NO_PENDING_DELETION);
+                    }
+
+                    await runInTransaction(adapter, async (trx) => {
+                        await trx.update({
+                            model: "user",
+                            where: [
+                                { field: "id", value: user.id },
+                                { field: "status", value: "pending_deletion" },
+                            ],
+                            update: {
+                                status: "active",
+                                deletionEffectiveAt: null,
+                                deletionReason: null,
+                                deletionFeedback: null,
+                            },
                         });
+                        await recordEvent(parsedCtx, trx, { type: "deletion_cancelled", userId: user.id, actor: "self", actorId: user.id });
+                    });
+
+                    return parsedCtx.json({
+                        message: "Account deletion cancelled.",
+                    });
+                }
+            ),
+            processPendingDeletions: createAuthEndpoint.serverOnly(
+                {
+                    method: "POST",
+                    body: processPendingDeletionsBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
                     }
+                    const input = (processPendingDeletionsBodySchema.parse(parsedCtx.body) ?? {}) as ProcessPendingDeletionsInput;
+                    const batchSize = input.batchSize ?? 100;
+                    const now = input.now ?? new Date();
 
-                    await parsedCtx.context.adapter.update({
+                    const adapter = parsedCtx.context.adapter;
+                    const users = ((await adapter.findMany?.({
                         model: "user",
-                        where: [{ field: "id", value: user.id }],
-                        update: {
-                            status: "active",
-                            deletedAt: null,
-                        },
+                        where: [
+                            { field: "status", value: "pending_deletion" },
+                            { field: "deletionEffectiveAt", value: now, operator: "lte" },
+                        ],
+                        limit: batchSize,
+                        sortBy: { field: "deletionEffectiveAt", direction: "asc" },
+                    })) ?? []) as SoftDeletionUserRecord[];
+
+                    const deletedUserIds: Array<string | number> = [];
+                    const skippedUserIds: Array<string | number> = [];
+                    for (const user of users) {
+                        try {
+                            await softDeleteUser(parsedCtx, adapter, user, { actor: "system" }, getStoredDeletionDetails(user));
+                            deletedUserIds.push(user.id);
+                        } catch (error) {
+                            // A `beforeSoftDelete` veto keeps the user pending instead of failing the whole batch.
+                            if (!(error instanceof APIError)) throw error;
+                            skippedUserIds.push(user.id);
+                        }
+                    }
+
+                    return parsedCtx.json<ProcessPendingDeletionsResult>({
+                        deletedUserIds,
+                        skippedUserIds,
+                        hasMore: users.length === batchSize && skippedUserIds.length < users.length,
+                    });
+                }
+            ),
+            softDeleteUser: createAuthEndpoint.serverOnly(
+                {
+                    method: "POST",
+                    body: softDeleteUserBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const { userId, reason } = softDeleteUserBodySchema.parse(parsedCtx.body) as SoftDeleteUserInput;
+
+                    const adapter = parsedCtx.context.adapter;
+                    const user = (await adapter.findOne({
+                        model: "user",
+                        where: [{ field: "id", value: userId }],
+                    })) as SoftDeletionUserRecord | null;
+                    if (!user) {
+                        throw new APIError("NOT_FOUND", SOFT_DELETION_ERROR_CODES.USER_NOT_FOUND);
+                    }
+                    if (isDeletedStatus(user.status)) {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.ACCOUNT_ALREADY_DELETED);
+                    }
+
+                    const metadata = await softDeleteUser(parsedCtx, adapter, user, { actor: "system" }, {
+                        ...getStoredDeletionDetails(user),
+                        ...(reason ? { reason } : {}),
+                    });
+
+                    return parsedCtx.json<SoftDeleteUserResult>({
+                        userId: user.id,
+                        ...metadata,
+                    });
+                }
+            ),
+            restoreUser: createAuthEndpoint.serverOnly(
+                {
+                    method: "POST",
+                    body: restoreUserBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const { userId } = restoreUserBodySchema.parse(parsedCtx.body) as AdminUserIdInput;
+                    await restoreDeletedUserById(parsedCtx, userId, { actor: "system" });
+
+                    return parsedCtx.json({
+                        message: "Account restored successfully.",
+                    });
+                }
+            ),
+            purgeExpiredUsers: createAuthEndpoint.serverOnly(
+                {
+                    method: "POST",
+                    body: purgeExpiredUsersBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const input = (purgeExpiredUsersBodySchema.parse(parsedCtx.body) ?? {}) as PurgeExpiredUsersInput;
+                    const batchSize = input.batchSize ?? 100;
+                    const dryRun = input.dryRun ?? false;
+                    const now = input.now ?? new Date();
+                    const cutoff = addDays(now, -purgeAfterDays);
+
+                    const adapter = parsedCtx.context.adapter;
+                    const users = ((await adapter.findMany?.({
+                        model: "user",
+                        where: [
+                            { field: "status", value: "deleted" },
+                            { field: "deletedAt", value: cutoff, operator: "lt" },
+                        ],
+                        limit: batchSize,
+                        sortBy: { field: "deletedAt", direction: "asc" },
+                    })) ?? []) as SoftDeletionUserRecord[];
+
+                    const expiredBlockedWhere = [
+                        { field: "expiresAt", value: now, operator: "lt" as const },
+                    ];
+                    let expiredBlockedIdentifierCount = 0;
+                    const purgedUserIds: Array<string | number> = dryRun ? users.map((user) => user.id) : [];
+                    const skippedUserIds: Array<string | number> = [];
+                    if (dryRun) {
+                        expiredBlockedIdentifierCount =
+                            (await adapter.count?.({ model: "blockedIdentifier", where: expiredBlockedWhere })) ?? 0;
+                    } else {
+                        for (const user of users) {
+                            try {
+                                // A user restored since the lookup is left alone.
+                                if (await expireUser(parsedCtx, adapter, user, { actor: "system" })) {
+                                    purgedUserIds.push(user.id);
+                                }
+                            } catch (error) {
+                                // A `beforePurge` veto skips the user instead of failing the whole batch.
+                                if (!(error instanceof APIError)) throw error;
+                                skippedUserIds.push(user.id);
+                            }
+                        }
+                        expiredBlockedIdentifierCount =
+                            (await adapter.deleteMany?.({ model: "blockedIdentifier", where: expiredBlockedWhere })) ?? 0;
+                        // Stale restore attempt counters (database storage only) expire the same way.
+                        await adapter.deleteMany?.({ model: "restoreAttempt", where: expiredBlockedWhere });
+                    }
+
+                    return parsedCtx.json<PurgeExpiredUsersResult>({
+                        dryRun,
+                        onExpire,
+                        cutoff: cutoff.toISOString(),
+                        purgedUserIds,
+                        purgedCount: purgedUserIds.length,
+                        skippedUserIds,
+                        expiredBlockedIdentifierCount,
+                        // A batch made only of vetoed users would be returned forever; stop there.
+                        hasMore: users.length === batchSize && skippedUserIds.length < users.length,
+                    });
+                }
+            ),
+            adminListDeletedUsers: createAuthEndpoint(
+                "/soft-deletion/admin/list-deleted-users",
+                {
+                    method: "GET",
+                    query: adminListDeletedUsersQuerySchema,
+                    use: [sessionMiddleware],
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    assertAdmin(parsedCtx.context);
+
+                    const input = (adminListDeletedUsersQuerySchema.parse(parsedCtx.query) ?? {}) as AdminListDeletedUsersInput;
+                    const limit = input.limit ?? 100;
+                    const offset = input.offset ?? 0;
+                    const where: QueryWhere = [{ field: "status", value: "deleted" }];
+                    if (input.deletedBefore) {
+                        where.push({ field: "deletedAt", value: new Date(input.deletedBefore), operator: "lt" });
+                    }
+                    if (input.deletedAfter) {
+                        where.push({ field: "deletedAt", value: new Date(input.deletedAfter), operator: "gt" });
+                    }
+                    if (input.reason) {
+                        where.push({ field: "deletionReason", value: input.reason });
+                    }
+
+                    const adapter = parsedCtx.context.adapter;
+                    const users = ((await adapter.findMany?.({
+                        model: "user",
+                        where,
+                        limit,
+                        offset,
+                        sortBy: { field: "deletedAt", direction: "desc" },
+                    })) ?? []) as SoftDeletionUserRecord[];
+                    const total = (await adapter.count?.({ model: "user", where })) ?? users.length;
+
+                    return parsedCtx.json<AdminListDeletedUsersResult>({
+                        users: users.map(toDeletedUserSummary),
+                        total,
+                        limit,
+                        offset,
                     });
-                    await clearBlockedIdentifier(parsedCtx.context.adapter, user.email);
+                }
+            ),
+            adminGetDeletedUser: createAuthEndpoint(
+                "/soft-deletion/admin/get-deleted-user",
+                {
+                    method: "GET",
+                    query: adminUserIdQuerySchema,
+                    use: [sessionMiddleware],
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    assertAdmin(parsedCtx.context);
+
+                    const { userId } = adminUserIdQuerySchema.parse(parsedCtx.query) as AdminUserIdInput;
+                    const user = await findDeletedUser(parsedCtx.context.adapter, userId);
+
+                    return parsedCtx.json(toDeletedUserSummary(user));
+                }
+            ),
+            adminRestoreUser: createAuthEndpoint(
+                "/soft-deletion/admin/restore-user",
+                {
+                    method: "POST",
+                    body: adminUserIdBodySchema,
+                    use: [sessionMiddleware],
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const actor = assertAdmin(parsedCtx.context);
+
+                    const { userId } = adminUserIdBodySchema.parse(parsedCtx.body) as AdminUserIdInput;
+                    await restoreDeletedUserById(parsedCtx, userId, actor);
 
                     return parsedCtx.json({
                         message: "Account restored successfully.",
                     });
                 }
             ),
+            adminPurgeUser: createAuthEndpoint(
+                "/soft-deletion/admin/purge-user",
+                {
+                    method: "POST",
+                    body: adminUserIdBodySchema,
+                    use: [sessionMiddleware],
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const actor = assertAdmin(parsedCtx.context);
+
+                    const { userId } = adminUserIdBodySchema.parse(parsedCtx.body) as AdminUserIdInput;
+                    const user = await findDeletedUser(parsedCtx.context.adapter, userId);
+                    if (user.status !== "deleted") {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.ACCOUNT_NOT_DELETED);
+                    }
+
+                    // Follows `onExpire`; blocked identifiers keep their retention window.
+                    if (!(await expireUser(parsedCtx, parsedCtx.context.adapter, user, actor))) {
+                        throw new APIError("BAD_REQUEST", SOFT_DELETION_ERROR_CODES.ACCOUNT_NOT_DELETED);
+                    }
+
+                    return parsedCtx.json<AdminPurgeUserResult>({
+                        userId: user.id,
+                        onExpire,
+                    });
+                }
+            ),
+            restoreModelRecord: createAuthEndpoint.serverOnly(
+                {
+                    method: "POST",
+                    body: modelRecordBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const { model, id } = modelRecordBodySchema.parse(parsedCtx.body) as ModelRecordInput;
+                    assertSoftDeletedModel(model);
+
+                    const adapter = parsedCtx.context.adapter;
+                    const where = await findDeletedModelRecord(adapter, model, id);
+                    await getRawAdapter(adapter).update({ model, where, update: { deletedAt: null } });
+
+                    return parsedCtx.json({ model, id });
+                }
+            ),
+            purgeModelRecord: createAuthEndpoint.serverOnly(
+                {
+                    method: "POST",
+                    body: modelRecordBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const { model, id } = modelRecordBodySchema.parse(parsedCtx.body) as ModelRecordInput;
+                    assertSoftDeletedModel(model);
+
+                    const adapter = parsedCtx.context.adapter;
+                    const where = await findDeletedModelRecord(adapter, model, id);
+                    await getRawAdapter(adapter).delete?.({ model, where });
+
+                    return parsedCtx.json({ model, id });
+                }
+            ),
+            purgeExpiredModelRecords: createAuthEndpoint.serverOnly(
+                {
+                    method: "POST",
+                    body: purgeExpiredModelRecordsBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const input = (purgeExpiredModelRecordsBodySchema.parse(parsedCtx.body) ?? {}) as PurgeExpiredModelRecordsInput;
+                    const models = input.models ?? softDeletedModels;
+                    models.forEach(assertSoftDeletedModel);
+                    const before = input.before ? new Date(input.before) : addDays(new Date(), -retentionDays);
+
+                    const adapter = getRawAdapter(parsedCtx.context.adapter);
+                    const purged: Record<string, number> = {};
+                    for (const model of models) {
+                        purged[model] =
+                            (await adapter.deleteMany?.({
+                                model,
+                                where: [
+                                    { field: "deletedAt", value: null, operator: "ne" },
+                                    { field: "deletedAt", value: before, operator: "lt" },
+                                ],
+                            })) ?? 0;
+                    }
+
+                    return parsedCtx.json<PurgeExpiredModelRecordsResult>({ purged });
+                }
+            ),
+            deliverWebhooks: createAuthEndpoint.serverOnly(
+                {
+                    method: "POST",
+                    body: deliverWebhooksBodySchema,
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    const input = (deliverWebhooksBodySchema.parse(parsedCtx.body) ?? {}) as DeliverWebhooksInput;
+                    const batchSize = input.batchSize ?? 50;
+                    const now = input.now ?? new Date();
+
+                    const adapter = parsedCtx.context.adapter;
+                    const webhooks = ((await adapter.findMany?.({
+                        model: "softDeletionWebhook",
+                        where: [
+                            { field: "status", value: "pending" },
+                            { field: "nextAttemptAt", value: now, operator: "lte" },
+                        ],
+                        limit: batchSize,
+                        sortBy: { field: "createdAt", direction: "asc" },
+                    })) ?? []) as SoftDeletionWebhookRecord[];
+
+                    const result: DeliverWebhooksResult = {
+                        deliveredCount: 0,
+                        retryCount: 0,
+                        deadCount: 0,
+                        hasMore: webhooks.length === batchSize,
+                    };
+                    for (const webhook of webhooks) {
+                        const where = [{ field: "id", value: webhook.id }];
+                        const attempts = Number(webhook.attempts ?? 0) + 1;
+                        try {
+                            await sendWebhook(webhook);
+                            await adapter.update({
+                                model: "softDeletionWebhook",
+                                where,
+                                update: { status: "delivered", attempts, deliveredAt: new Date(), lastError: null },
+                            });
+                            result.deliveredCount++;
+                        } catch (error) {
+                            const lastError = error instanceof Error ? error.message : String(error);
+                            if (attempts >= webhookMaxAttempts) {
+                                await adapter.update({
+                                    model: "softDeletionWebhook",
+                                    where,
+                                    update: { status: "dead", attempts, lastError },
+                                });
+                                result.deadCount++;
+                                continue;
+                            }
+                            const delaySeconds = Math.min(webhookBackoffSeconds * 2 ** (attempts - 1), 24 * 60 * 60);
+                            await adapter.update({
+                                model: "softDeletionWebhook",
+                                where,
+                                update: {
+                                    attempts,
+                                    lastError,
+                                    nextAttemptAt: new Date(now.getTime() + delaySeconds * 1000),
+                                },
+                            });
+                            result.retryCount++;
+                        }
+                    }
+
+                    return parsedCtx.json(result);
+                }
+            ),
+            adminListEvents: createAuthEndpoint(
+                "/soft-deletion/admin/list-events",
+                {
+                    method: "GET",
+                    query: adminListEventsQuerySchema,
+                    use: [sessionMiddleware],
+                },
+                async (ctx) => {
+                    const parsedCtx = toHookContext(ctx);
+                    if (!parsedCtx) {
+                        throw new APIError("INTERNAL_SERVER_ERROR", SOFT_DELETION_ERROR_CODES.SD_CONTEXT_INVALID);
+                    }
+                    assertAdmin(parsedCtx.context);
+
+                    const input = (adminListEventsQuerySchema.parse(parsedCtx.query) ?? {}) as AdminListEventsInput;
+                    const limit = input.limit ?? 100;
+                    const offset = input.offset ?? 0;
+                    const where: QueryWhere = [];
+                    if (input.userId) where.push({ field: "userId", value: input.userId });
+                    if (input.type) where.push({ field: "type", value: input.type });
+                    if (input.from) where.push({ field: "createdAt", value: new Date(input.from), operator: "gte" });
+                    if (input.to) where.push({ field: "createdAt", value: new Date(input.to), operator: "lt" });
+
+                    const adapter = parsedCtx.context.adapter;
+                    const events = ((await adapter.findMany?.({
+                        model: "softDeletionEvent",
+                        where,
+                        limit,
+                        offset,
+                        sortBy: { field: "createdAt", direction: "desc" },
+                    })) ?? []) as SoftDeletionEventRecord[];
+                    const total = (await adapter.count?.({ model: "softDeletionEvent", where })) ?? events.length;
+
+                    return parsedCtx.json<AdminListEventsResult>({
+                        events,
+                        total,
+                        limit,
+                        offset,
+                    });
+                }
+            ),
         },
     } satisfies BetterAuthPlugin;
 };
@@ -1,27 +1,336 @@
+import type { BetterAuthOptions } from "better-auth";
+import type { SecretConfig } from "better-auth/crypto";
+import type { SoftDeletionErrorCode } from "./error-codes";
+
 export interface SoftDeletionOptions {
     /**
      * Number of days to retain the blocked identifier.
      * @default 30
      */
     retentionDays?: number;
+    /**
+     * Number of days after deletion during which the account can be restored.
+     * Can be longer than `retentionDays` to keep restore open after the email block ends.
+     * Users are only purged once both windows have passed.
+     * @default retentionDays
+     */
+    restoreWindowDays?: number;
+    /**
+     * Days between `/delete-user` and the deletion taking effect. During this time the account is
+     * `"pending_deletion"`: the user can still sign in and cancel with `POST /soft-deletion/cancel`.
+     * `auth.api.processPendingDeletions()` soft deletes the account once `deletionEffectiveAt` has passed.
+     * @default 0 (delete immediately)
+     */
+    gracePeriodDays?: number;
+    /**
+     * What happens to a deleted user once the retention and restore windows have passed.
+     * - `purge`: hard-delete the user row
+     * - `anonymize`: keep the row id (for foreign keys) but overwrite its PII with tombstone values
+     *   and set `status` to `"anonymized"`
+     * Sessions, accounts and verification rows are deleted in both modes.
+     * @default "purge"
+     */
+    onExpire?: SoftDeletionExpireMode;
+    /**
+     * Extra user fields to clear when `onExpire` is `"anonymize"` (e.g. `phoneNumber`, `username`).
+     * `email`, `name` and `image` are always overwritten.
+     */
+    anonymizeFields?: string[];
+    /**
+     * Record deletes, restores, purges and blocked sign-in/sign-up attempts in the `softDeletionEvent` model.
+     * @default true
+     */
+    auditEvents?: boolean;
+    /**
+     * Signed webhooks for deletes, restores, purges and anonymizations.
+     * Events are written to the `softDeletionWebhook` outbox and sent by `auth.api.deliverWebhooks()`.
+     */
+    webhooks?: WebhookOptions;
+    /**
+     * Roles allowed to use the `/soft-deletion/admin/*` endpoints.
+     * Matched against `user.role` (comma-separated, as stored by the admin plugin).
+     * @default ["admin"]
+     */
+    adminRoles?: string[];
+    /**
+     * User ids allowed to use the admin endpoints regardless of their role.
+     */
+    adminUserIds?: string[];
     /**
      * Whether to block re-registration for deleted users.
      * @default true
      */
     blockReRegistration?: boolean;
+    /**
+     * Identifier types to block during the retention window.
+     * - `email`: the user's email
+     * - `phoneNumber`: the phone number from the phone-number plugin
+     * - `username`: the username from the username plugin
+     * - `account`: linked provider accounts (`providerId:accountId`), which stay the same when the email changes
+     * @default ["email", "phoneNumber", "username", "account"]
+     */
+    blockedIdentifierTypes?: BlockedIdentifierType[];
+    /**
+     * Normalizes emails before they are hashed into `blockedIdentifier`.
+     * Use the exported `canonicalizeEmail` to stop evasion through plus-tags, Gmail dots and alias domains.
+     * Changing this function changes the stored hashes, so rows written before the change stop matching.
+     * @default (email) => email.toLowerCase().trim()
+     */
+    normalizeEmail?: (email: string) => string;
+    /**
+     * Hash blocked identifiers with HMAC-SHA-256 keyed by a server secret instead of plain SHA-256,
+     * so a database dump cannot be matched against a list of known emails.
+     * Rows written with plain SHA-256 are still honored.
+     */
+    identifierHashing?: IdentifierHashingOptions;
+    /**
+     * Sends the restore link for the token-based restore flow.
+     * Required to enable `POST /soft-deletion/restore/request`, which lets
+     * OAuth-only and passwordless users restore their account.
+     */
+    sendRestoreEmail?: (
+        data: { user: SoftDeletionUserRecord; url: string; token: string },
+        request?: Request
+    ) => Promise<void>;
+    /**
+     * Runs before a user is soft deleted. Throw an `APIError` to veto the deletion
+     * (e.g. while a subscription is active); `/delete-user` then fails with that error.
+     * With `gracePeriodDays`, it runs when the deletion is scheduled and again when it takes effect.
+     */
+    beforeSoftDelete?: (data: SoftDeletionLifecycleData & DeletionDetails, request?: Request) => Promise<void> | void;
+    /**
+     * Runs after a user is soft deleted.
+     */
+    onSoftDelete?: (data: SoftDeletionLifecycleData & DeletionDetails, request?: Request) => Promise<void> | void;
+    /**
+     * Runs before a user is restored. Throw an `APIError` to veto the restore.
+     */
+    beforeRestore?: (data: SoftDeletionLifecycleData, request?: Request) => Promise<void> | void;
+    /**
+     * Runs after a user is restored.
+     */
+    onRestore?: (data: SoftDeletionLifecycleData, request?: Request) => Promise<void> | void;
+    /**
+     * Runs before a user is purged or anonymized. Throw an `APIError` to veto;
+     * `purgeExpiredUsers` then skips the user and reports it in `skippedUserIds`.
+     */
+    beforePurge?: (
+        data: SoftDeletionLifecycleData & { onExpire: SoftDeletionExpireMode },
+        request?: Request
+    ) => Promise<void> | void;
+    /**
+     * Runs after a user is purged or anonymized. `user` is the record as it was before.
+     */
+    onPurge?: (
+        data: SoftDeletionLifecycleData & { onExpire: SoftDeletionExpireMode },
+        request?: Request
+    ) => Promise<void> | void;
+    /**
+     * Runs when a deleted user is rejected with `ACCOUNT_DELETED`.
+     */
+    onBlockedSignIn?: (data: DeletedUserSummary, request?: Request) => Promise<void> | void;
+    /**
+     * Runs when a sign-up or account link is rejected because an identifier is blocked.
+     */
+    onBlockedSignUp?: (data: { identifier: SoftDeletionIdentifier; code: string }, request?: Request) => Promise<void> | void;
+    /**
+     * Number of seconds a restore token stays valid.
+     * @default 3600
+     */
+    restoreTokenExpiresIn?: number;
     /**
      * Optional hook to rate-limit restore attempts (for brute-force protection).
      * Return `false` or `{ allowed: false }` to block the attempt.
+     * Replaces the built-in `restoreLockout` limiter when set.
      */
     restoreRateLimit?: (
         params: { email: string; context: unknown }
     ) => Promise<boolean | RestoreRateLimitResult> | boolean | RestoreRateLimitResult;
+    /**
+     * Resist account enumeration on sign-in and restore:
+     * - the sign-in pre-check is skipped, so `ACCOUNT_DELETED` is only returned after a correct password
+     * - restore always verifies a password (against a dummy hash when no user or credential exists) and answers
+     *   `AUTH_INVALID_CREDENTIALS` for unknown emails, wrong passwords, active accounts and passwordless accounts alike
+     * @default false
+     */
+    privacyMode?: boolean;
+    /**
+     * Reject cookie-cached sessions of deleted users by reading the user's `status` from the database when
+     * Better Auth has no `secondaryStorage`. Costs one `user` query per cookie-cache read, so it is off by default;
+     * with `secondaryStorage` the check is a key lookup and always on.
+     * @default false
+     */
+    cookieCacheStatusCheck?: boolean;
+    /**
+     * Built-in limiter for `POST /soft-deletion/restore`: counts failed password attempts per email and per IP.
+     * Set to `false` to disable.
+     */
+    restoreLockout?: RestoreLockoutOptions | false;
+    /**
+     * Second factor for `POST /soft-deletion/restore` and `POST /soft-deletion/restore/verify` when the user has
+     * `twoFactorEnabled` (Better Auth `twoFactor` plugin).
+     * Mirror the settings passed to that plugin. Set to `false` to restore with the password alone.
+     */
+    restoreTwoFactor?: RestoreTwoFactorOptions | false;
+    /**
+     * Reactivate a deleted account when the user signs in again within `restoreWindowDays`.
+     * Covers `/sign-in/*` and OAuth callbacks; the restore runs once the credentials are verified, right before
+     * the session is created. JSON responses get `accountRestored: true`, redirects an `accountRestored=true` query param.
+     * Users with `twoFactorEnabled` still restore through `POST /soft-deletion/restore` unless `restoreTwoFactor` is `false`.
+     * @default false
+     */
+    restoreOnSignIn?: boolean;
+    /**
+     * Reason codes accepted in the `reason` field of `/delete-user`. Any reason is accepted when unset.
+     */
+    deletionReasons?: string[];
+    /**
+     * Maximum length of the free-text `feedback` field of `/delete-user`.
+     * @default 1000
+     */
+    maxDeletionFeedbackLength?: number;
+    /**
+     * Better Auth `organization` plugin integration. Memberships of deleted users are marked inactive
+     * and reinstated on restore; `onSoleOwner` decides what happens to organizations the user owns alone.
+     */
+    organizations?: OrganizationDeletionOptions;
+    /**
+     * Other models to soft delete through a `deletedAt` field, e.g. `["organization", "apiKey", "passkey"]`.
+     * Deletes from any plugin become updates and reads skip deleted rows; see `restoreModelRecord`
+     * and `purgeModelRecord` / `purgeExpiredModelRecords`.
+     */
+    models?: string[];
+}
+
+export type SoleOwnerPolicy = "refuse" | "transfer" | "delete";
+
+export interface OrganizationDeletionOptions {
+    /**
+     * - `refuse`: deletion fails with `SOLE_OWNER`
+     * - `transfer`: the oldest admin becomes owner; fails with `SOLE_OWNER` when an organization has no admin
+     * - `delete`: the organization is soft deleted too, and restored with the user
+     * @default "refuse"
+     */
+    onSoleOwner?: SoleOwnerPolicy;
+    /**
+     * @default "owner"
+     */
+    ownerRole?: string;
+    /**
+     * Role that can receive ownership with `transfer`.
+     * @default "admin"
+     */
+    adminRole?: string;
+}
+
+/**
+ * Exit survey sent with `/delete-user`, kept on the user until the account is restored or expires.
+ */
+export interface DeletionDetails {
+    reason?: string;
+    feedback?: string;
+}
+
+/**
+ * Body of Better Auth's `/delete-user` plus the exit survey fields this plugin reads.
+ */
+export interface DeleteAccountInput extends DeletionDetails {
+    password?: string;
+    callbackURL?: string;
+    token?: string;
+}
+
+export interface RestoreTwoFactorOptions {
+    /**
+     * Seconds the challenge token returned by `/soft-deletion/restore` stays valid.
+     * @default 300
+     */
+    challengeExpiresIn?: number;
+    /**
+     * Wrong codes accepted per challenge before it is discarded and the password must be entered again.
+     * @default 5
+     */
+    maxAttempts?: number;
+    /**
+     * TOTP digits, as in the two-factor plugin's `totpOptions.digits`.
+     * @default 6
+     */
+    digits?: number;
+    /**
+     * TOTP period in seconds, as in the two-factor plugin's `totpOptions.period`.
+     * @default 30
+     */
+    period?: number;
+    /**
+     * How backup codes are stored, as in the two-factor plugin's `backupCodeOptions.storeBackupCodes`.
+     * @default "encrypted"
+     */
+    storeBackupCodes?:
+        | "plain"
+        | "encrypted"
+        | { encrypt: (token: string) => Promise<string>; decrypt: (token: string) => Promise<string> };
+}
+
+export interface RestoreLockoutOptions {
+    /**
+     * Failed attempts allowed within `windowSeconds` before locking.
+     * @default 5
+     */
+    maxAttempts?: number;
+    /**
+     * Sliding window for counting failed attempts.
+     * @default 900
+     */
+    windowSeconds?: number;
+    /**
+     * First lockout duration; doubled on every further lockout, capped at one day.
+     * @default 60
+     */
+    lockoutSeconds?: number;
+    /**
+     * Where attempt counters are kept.
+     * @default "secondary-storage" when Better Auth `secondaryStorage` is configured, otherwise "database"
+     */
+    storage?: "database" | "secondary-storage";
+}
+
+export interface RestoreAttemptState {
+    /**
+     * Timestamps (ms) of failed attempts inside the window.
+     */
+    failures: number[];
+    lockoutCount: number;
+    lockedUntil: number | null;
+}
+
+export type BlockedIdentifierType = "email" | "phoneNumber" | "username" | "account";
+
+export interface SoftDeletionIdentifier {
+    type: BlockedIdentifierType;
+    value: string;
+}
+
+export interface IdentifierHashingOptions {
+    /**
+     * Secret used to key HMAC-SHA-256. Falls back to Better Auth's `secret`.
+     */
+    secret?: string;
+    /**
+     * Version tag stored with rows hashed by the current secret.
+     * @default "1"
+     */
+    keyVersion?: string;
+    /**
+     * Rotated-out keys that are still accepted for lookups until their rows are re-hashed or expire.
+     */
+    previousKeys?: Array<{ version: string; secret: string }>;
 }
 
 export interface BlockedIdentifier {
     id: string;
     identifierHash: string;
     type: string;
+    keyVersion?: string | null;
     expiresAt?: Date;
     createdAt: Date;
 }
@@ -42,23 +351,453 @@ export interface RestoreAccountSuccess {
     message: string;
 }
 
-export type QueryWhere = Array<{ field: string; value: unknown }>;
+export interface RestoreAccountTwoFactorChallenge {
+    twoFactorRequired: true;
+    /**
+     * Pass to `POST /soft-deletion/restore/two-factor` together with the code.
+     */
+    challengeToken: string;
+}
+
+export interface VerifyRestoreTwoFactorInput {
+    challengeToken: string;
+    code: string;
+    /**
+     * @default "totp"
+     */
+    method?: "totp" | "backup_code";
+}
+
+export interface RequestAccountRestoreInput {
+    email: string;
+    /**
+     * URL the restore link points to. The token is appended as a `token` query param.
+     */
+    callbackURL: string;
+}
+
+export interface VerifyAccountRestoreInput {
+    token: string;
+}
+
+/**
+ * Proof of ownership for `POST /soft-deletion/status`: the account password, or an unused restore link token.
+ */
+export type DeletionStatusInput = RestoreAccountInput | VerifyAccountRestoreInput;
+
+export interface SoftDeleteUserInput {
+    userId: string;
+    /**
+     * Stored on the user as `deletionReason` until the account is restored or expires.
+     */
+    reason?: string;
+}
+
+export interface ModelRecordInput {
+    model: string;
+    id: string;
+}
+
+export interface PurgeExpiredModelRecordsInput {
+    /**
+     * @default all `models`
+     */
+    models?: string[];
+    /**
+     * Purge rows deleted before this date.
+     * @default now minus `retentionDays`
+     */
+    before?: Date | string;
+}
+
+export interface PurgeExpiredModelRecordsResult {
+    /**
+     * Purged row count per model.
+     */
+    purged: Record<string, number>;
+}
+
+export interface SoftDeleteUserResult {
+    userId: string | number;
+    deletedAt: string;
+    restoreDeadline: string;
+    scheduledDeletionDate: string;
+}
+
+export type SoftDeletionUserStatus = "active" | "pending_deletion" | "deleted" | "anonymized";
+
+export type SoftDeletionEventType =
+    | "deletion_scheduled"
+    | "deletion_cancelled"
+    | "deleted"
+    | "restored"
+    | "purged"
+    | "anonymized"
+    | "sign_in_blocked"
+    | "sign_up_blocked";
+
+export interface SoftDeletionActor {
+    /**
+     * `self` for the user acting on their own account, `admin` for admin routes and other users' sessions,
+     * `system` for server-side calls without a session.
+     */
+    actor: "self" | "admin" | "system";
+    actorId?: string | number | null;
+}
+
+export interface SoftDeletionEventRecord {
+    id: string;
+    type: SoftDeletionEventType;
+    userId?: string | null;
+    actor: SoftDeletionActor["actor"];
+    actorId?: string | null;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+    /**
+     * JSON-encoded details, e.g. the blocked identifier type or the deletion reason.
+     */
+    metadata?: string | null;
+    createdAt: Date | string;
+}
+
+export interface WebhookEndpoint {
+    url: string;
+    /**
+     * Used to sign the `x-soft-deletion-signature` header.
+     */
+    secret: string;
+    /**
+     * Event types sent to this endpoint.
+     * @default ["deletion_scheduled", "deletion_cancelled", "deleted", "restored", "purged", "anonymized"]
+     */
+    events?: SoftDeletionEventType[];
+}
+
+export interface WebhookOptions {
+    endpoints: WebhookEndpoint[];
+    /**
+     * Delivery attempts before a webhook is moved to the `dead` status.
+     * @default 10
+     */
+    maxAttempts?: number;
+    /**
+     * Delay before the first retry; doubled after every failed attempt, capped at one day.
+     * @default 30
+     */
+    backoffSeconds?: number;
+    /**
+     * @default 10000
+     */
+    timeoutMs?: number;
+}
+
+export type WebhookStatus = "pending" | "delivered" | "dead";
+
+export interface WebhookPayload {
+    /**
+     * Same for every endpoint that receives the event; use it to deduplicate retries.
+     */
+    id: string;
+    type: SoftDeletionEventType;
+    createdAt: string;
+    data: {
+        userId: string | null;
+        actor: SoftDeletionActor["actor"];
+        actorId: string | null;
+        metadata?: Record<string, unknown>;
+    };
+}
+
+export interface SoftDeletionWebhookRecord {
+    id: string;
+    url: string;
+    eventType: SoftDeletionEventType;
+    /**
+     * JSON-encoded `WebhookPayload`.
+     */
+    payload: string;
+    status: WebhookStatus;
+    attempts: number;
+    nextAttemptAt: Date | string;
+    lastError?: string | null;
+    deliveredAt?: Date | string | null;
+    createdAt: Date | string;
+}
+
+export interface ProcessPendingDeletionsInput {
+    /**
+     * @default 100
+     */
+    batchSize?: number;
+    /**
+     * @default new Date()
+     */
+    now?: Date;
+}
+
+export interface ProcessPendingDeletionsResult {
+    deletedUserIds: Array<string | number>;
+    /**
+     * Users vetoed by `beforeSoftDelete`. They stay pending and are picked up again on the next run.
+     */
+    skippedUserIds: Array<string | number>;
+    hasMore: boolean;
+}
+
+export interface DeliverWebhooksInput {
+    /**
+     * @default 50
+     */
+    batchSize?: number;
+    /**
+     * @default new Date()
+     */
+    now?: Date;
+}
+
+export interface DeliverWebhooksResult {
+    deliveredCount: number;
+    retryCount: number;
+    deadCount: number;
+    hasMore: boolean;
+}
+
+export interface AdminListEventsInput {
+    userId?: string;
+    type?: SoftDeletionEventType;
+    /**
+     * @default 100
+     */
+    limit?: number;
+    /**
+     * @default 0
+     */
+    offset?: number;
+    /**
+     * Only events at or after this date.
+     */
+    from?: Date | string;
+    /**
+     * Only events before this date.
+     */
+    to?: Date | string;
+}
+
+export interface AdminListEventsResult {
+    events: SoftDeletionEventRecord[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+export interface AdminListDeletedUsersInput {
+    /**
+     * @default 100
+     */
+    limit?: number;
+    /**
+     * @default 0
+     */
+    offset?: number;
+    /**
+     * Only users deleted before this date.
+     */
+    deletedBefore?: Date | string;
+    /**
+     * Only users deleted after this date.
+     */
+    deletedAfter?: Date | string;
+    /**
+     * Only users who gave this deletion reason.
+     */
+    reason?: string;
+}
+
+export interface AdminUserIdInput {
+    userId: string;
+}
+
+/**
+ * `error` of client actions. `code` is one of `$ERROR_CODES`, or a Better Auth code for routes like `/delete-user`.
+ */
+export interface SoftDeletionClientError {
+    code?: SoftDeletionErrorCode | (string & {});
+    message?: string;
+    status: number;
+    statusText: string;
+    details?: unknown;
+}
+
+export type SoftDeletionClientResult<T> = { data: T; error: null } | { data: null; error: SoftDeletionClientError };
+
+/**
+ * Deletion dates as ISO strings, also sent as `details` of `ACCOUNT_DELETED` errors.
+ */
+export interface DeletionMetadata {
+    deletedAt: string;
+    restoreDeadline: string;
+    scheduledDeletionDate: string;
+}
+
+export type RestoreMethod = "password" | "email";
+
+export interface DeletionStatus extends DeletionMetadata {
+    /**
+     * Whether the restore window is still open.
+     */
+    restorable: boolean;
+    /**
+     * Whole days left until `restoreDeadline`, rounded up. `0` once the window has closed.
+     */
+    daysRemaining: number;
+    /**
+     * `"password"` for `POST /soft-deletion/restore`, `"email"` for a restore link. Empty when not restorable.
+     */
+    restoreMethods: RestoreMethod[];
+    /**
+     * Password restores must be finished with a TOTP or backup code.
+     */
+    twoFactorRequired: boolean;
+}
+
+/**
+ * Value of the client's `deletionStatus` atom, shaped like `useSession`.
+ */
+export interface DeletionStatusState {
+    data: DeletionStatus | null;
+    error: SoftDeletionClientError | null;
+    isPending: boolean;
+}
+
+export interface DeletedUserSummary extends DeletionMetadata {
+    user: SoftDeletionUserRecord;
+}
+
+export type SoftDeletionLifecycleData = DeletedUserSummary & SoftDeletionActor;
+
+export interface AdminListDeletedUsersResult {
+    users: DeletedUserSummary[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+export interface AdminPurgeUserResult {
+    userId: string | number;
+    onExpire: SoftDeletionExpireMode;
+}
+
+export interface PurgeExpiredUsersInput {
+    /**
+     * Maximum number of users to purge in a single call.
+     * @default 100
+     */
+    batchSize?: number;
+    /**
+     * Reference time used to compute the retention cutoff.
+     * @default new Date()
+     */
+    now?: Date;
+    /**
+     * Report what would be purged without deleting anything.
+     * @default false
+     */
+    dryRun?: boolean;
+}
+
+export type SoftDeletionExpireMode = "purge" | "anonymize";
+
+export interface PurgeExpiredUsersResult {
+    dryRun: boolean;
+    onExpire: SoftDeletionExpireMode;
+    cutoff: string;
+    purgedUserIds: Array<string | number>;
+    purgedCount: number;
+    /**
+     * Users vetoed by `beforePurge`. They are picked up again on the next run.
+     */
+    skippedUserIds: Array<string | number>;
+    expiredBlockedIdentifierCount: number;
+    hasMore: boolean;
+}
+
+export type QueryOperator =
+    | "eq"
+    | "ne"
+    | "lt"
+    | "lte"
+    | "gt"
+    | "gte"
+    | "in"
+    | "not_in"
+    | "contains"
+    | "starts_with"
+    | "ends_with";
+
+export type QueryWhere = Array<{
+    field: string;
+    value: unknown;
+    operator?: QueryOperator;
+    connector?: "AND" | "OR";
+}>;
 
 export interface SoftDeletionAdapter {
     findOne(input: { model: string; where: QueryWhere }): Promise<unknown>;
+    findMany?(input: {
+        model: string;
+        where?: QueryWhere;
+        limit?: number;
+        offset?: number;
+        sortBy?: { field: string; direction: "asc" | "desc" };
+    }): Promise<unknown[]>;
+    count?(input: { model: string; where?: QueryWhere }): Promise<number>;
     update(input: { model: string; where: QueryWhere; update: Record<string, unknown> }): Promise<void>;
+    updateMany?(input: { model: string; where: QueryWhere; update: Record<string, unknown> }): Promise<number>;
     create?(input: { model: string; data: Record<string, unknown> }): Promise<void>;
     delete?(input: { model: string; where: QueryWhere }): Promise<void>;
+    deleteMany?(input: { model: string; where: QueryWhere }): Promise<number>;
+    transaction?<R>(callback: (trx: SoftDeletionAdapter) => Promise<R>): Promise<R>;
 }
 
 export interface SoftDeletionInternalAdapter {
-    deleteSessions?: (userId: string | number) => Promise<void>;
+    deleteUserSessions?: (userId: string | number) => Promise<void>;
+}
+
+export interface RehashBlockedIdentifiersInput {
+    /**
+     * Maximum number of deleted users to scan in a single call.
+     * @default 100
+     */
+    batchSize?: number;
+    /**
+     * Number of deleted users to skip; pass the previous `nextOffset`.
+     * @default 0
+     */
+    offset?: number;
+}
+
+export interface RehashBlockedIdentifiersResult {
+    scannedUserCount: number;
+    rehashedCount: number;
+    nextOffset: number;
+    hasMore: boolean;
+}
+
+export interface SoftDeletionSecondaryStorage {
+    get(key: string): Promise<unknown> | unknown;
+    set(key: string, value: string, ttl?: number): Promise<void | null | unknown> | void;
+    delete(key: string): Promise<void | null | string> | void;
 }
 
 export interface RuntimePassword {
+    hash?(password: string): Promise<string>;
     verify(input: { hash: string; password: string }): Promise<boolean>;
 }
 
+export interface SoftDeletionSession {
+    user: SoftDeletionUserRecord & { role?: string | null };
+}
+
 export interface SoftDeletionHookContext {
     path?: string;
     body?: unknown;
@@ -70,18 +809,62 @@ export interface SoftDeletionHookContext {
         adapter: SoftDeletionAdapter;
         internalAdapter?: SoftDeletionInternalAdapter;
         password: RuntimePassword;
+        baseURL?: string;
+        secret?: string;
+        secretConfig?: SecretConfig;
+        softDeletionDetails?: DeletionDetails;
+        softDeletionRestoredOnSignIn?: boolean;
+        secondaryStorage?: SoftDeletionSecondaryStorage;
+        returned?: unknown;
+        session?: SoftDeletionSession | null;
+        options?: BetterAuthOptions;
     };
-    json(payload: RestoreAccountSuccess): RestoreAccountSuccess;
+    json<T>(payload: T): T;
 }
 
 export interface SoftDeletionUserRecord {
     id: string | number;
     email?: string | null;
+    name?: string | null;
+    phoneNumber?: string | null;
+    username?: string | null;
+    status?: string | null;
+    deletedAt?: Date | string | null;
+    deletionReason?: string | null;
+    deletionFeedback?: string | null;
+    deletionEffectiveAt?: Date | string | null;
+    twoFactorEnabled?: boolean | null;
+}
+
+export interface SoftDeletionVerificationRecord {
+    id: string;
+    identifier: string;
+    value: string;
+    expiresAt: Date | string;
+}
+
+export interface SoftDeletionTwoFactorRecord {
+    secret?: string | null;
+    backupCodes?: string | null;
+}
+
+export interface SoftDeletionMemberRecord {
+    id: string | number;
+    organizationId: string | number;
+    userId: string | number;
+    role: string;
+    status?: string | null;
+    createdAt?: Date | string;
+}
+
+export interface SoftDeletionOrganizationRecord {
+    id: string | number;
     status?: string | null;
     deletedAt?: Date | string | null;
 }
 
 export interface SoftDeletionAccountRecord {
     providerId?: string | null;
+    accountId?: string | null;
     password?: string | null;
 }
@@ -1,11 +1,118 @@
+const toHex = (buffer: ArrayBuffer | Uint8Array) =>
+    Array.from(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer))
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+
+const constantTimeEqual = (a: string, b: string) => {
+    let difference = a.length ^ b.length;
+    for (let i = 0; i < b.length; i++) {
+        difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return difference === 0;
+};
+
+const hmac = async (hash: "SHA-1" | "SHA-256", secret: string, data: BufferSource) => {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(secret),
+        { name: "HMAC", hash },
+        false,
+        ["sign"],
+    );
+    return crypto.subtle.sign("HMAC", key, data);
+};
+
 /**
- * Hashes a string using SHA-256.
+ * Hashes a string using SHA-256, or HMAC-SHA-256 when a secret is given.
  * Uses Web Crypto API which is available in Node.js, Bun, and Browsers.
  */
-export async function hashIdentifier(identifier: string): Promise<string> {
+export async function hashIdentifier(identifier: string, secret?: string): Promise<string> {
     const encoder = new TextEncoder();
     const data = encoder.encode(identifier.toLowerCase().trim());
-    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+    const hashBuffer = secret ? await hmac("SHA-256", secret, data) : await crypto.subtle.digest("SHA-256", data);
+    return toHex(hashBuffer);
+}
+
+/**
+ * Signs a webhook payload: hex HMAC-SHA-256 of `${timestamp}.${body}`.
+ * Receivers recompute it with the endpoint secret and compare in constant time.
+ */
+export async function signWebhookPayload(body: string, timestamp: number, secret: string): Promise<string> {
+    return toHex(await hmac("SHA-256", secret, new TextEncoder().encode(`${timestamp}.${body}`)));
+}
+
+/**
+ * Generates a random URL-safe token (hex encoded).
+ * Uses Web Crypto API which is available in Node.js, Bun, and Browsers.
+ */
+export function generateToken(byteLength = 32): string {
+    return toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Verifies an RFC 6238 TOTP code (HMAC-SHA-1), accepting one period of clock drift either way.
+ * The secret is the raw string Better Auth's two-factor plugin stores, not its base32 form.
+ */
+export async function verifyTotp(
+    code: string,
+    secret: string,
+    options?: { digits?: number; period?: number }
+): Promise<boolean> {
+    const digits = options?.digits ?? 6;
+    const period = options?.period ?? 30;
+    const counter = Math.floor(Date.now() / (period * 1000));
+    let matched = false;
+    for (let drift = -1; drift <= 1; drift++) {
+        const buffer = new ArrayBuffer(8);
+        new DataView(buffer).setBigUint64(0, BigInt(counter + drift), false);
+        const mac = new Uint8Array(await hmac("SHA-1", secret, buffer));
+        const offset = mac[mac.length - 1]! & 0x0f;
+        const binary =
+            ((mac[offset]! & 0x7f) << 24) |
+            (mac[offset + 1]! << 16) |
+            (mac[offset + 2]! << 8) |
+            mac[offset + 3]!;
+        const expected = (binary % 10 ** digits).toString().padStart(digits, "0");
+        // Check every window so timing does not reveal which one matched.
+        matched = constantTimeEqual(code, expected) || matched;
+    }
+    return matched;
+}
+
+const defaultDomainAliases: Record<string, string> = {
+    "googlemail.com": "gmail.com",
+};
+
+// Domains whose mailboxes ignore dots in the local part.
+const dotInsensitiveDomains = ["gmail.com"];
+
+/**
+ * Canonicalizes an email so aliases of the same mailbox hash to the same value:
+ * lowercases, converts the domain to its IDNA (punycode) form, maps alias domains,
+ * strips plus-tags and removes dots for Gmail addresses.
+ */
+export function canonicalizeEmail(
+    email: string,
+    options?: { domainAliases?: Record<string, string> }
+): string {
+    const normalized = email.trim().toLowerCase();
+    const at = normalized.lastIndexOf("@");
+    if (at <= 0) return normalized;
+
+    let local = normalized.slice(0, at);
+    let domain = normalized.slice(at + 1).replace(/\.$/, "");
+    try {
+        domain = new URL(`http://${domain}`).hostname;
+    } catch {
+        // Not a valid hostname; keep the domain as typed.
+    }
+    const aliases = { ...defaultDomainAliases, ...options?.domainAliases };
+    domain = aliases[domain] ?? domain;
+
+    local = local.split("+")[0] ?? local;
+    if (dotInsensitiveDomains.includes(domain)) {
+        local = local.replace(/\./g, "");
+    }
+    return `${local}@${domain}`;
 }
@@ -1,17 +1,32 @@
 import { describe, it, expect, beforeAll, beforeEach } from "bun:test";
 import { betterAuth } from "better-auth"; // For types and APIError
-import { softDeletion } from "../src";
+import { softDeletion, canonicalizeEmail, getAccountDeletedDetails, SOFT_DELETION_ERROR_CODES } from "../src";
+import { softDeletionClient } from "../src/client";
 import { Database } from "bun:sqlite";
-import { hashIdentifier } from "../src/utils";
+import { hashIdentifier, signWebhookPayload } from "../src/utils";
 import { APIError } from "better-auth";
+import { symmetricDecrypt, symmetricEncrypt } from "better-auth/crypto";
+import { createOTP } from "@better-auth/utils/otp";
+import { memoryAdapter } from "better-auth/adapters/memory";
 
 const db = new Database(":memory:");
 
+const sqlOperators: Record<string, string> = { eq: "=", ne: "!=", lt: "<", lte: "<=", gt: ">", gte: ">=" };
+
+// Translate adapter where clauses (AND-only) into a SQL fragment and params
+const toSqlWhere = (where: any[] = []) => {
+    if (where.length === 0) return { clause: "", params: [] as any[] };
+    const parts = where.map((w: any) =>
+        w.value === null ? `${w.field} IS ${w.operator === "ne" ? "NOT " : ""}NULL` : `${w.field} ${sqlOperators[w.operator ?? "eq"]} ?`);
+    const params = where.filter((w: any) => w.value !== null).map((w: any) => (w.value instanceof Date ? w.value.toISOString() : w.value));
+    return { clause: ` WHERE ${parts.join(" AND ")}`, params };
+};
+
 // Mock for Better Auth's internal adapter and password verifier
 const mockAdapter = {
     // Implement only methods used in the plugin
     findOne: (args: any) => {
-        if (args.model === "user") {
+        if (args.model === "user" && args.where[0].field === "email") {
             // Find user by email
             const user = db.query("SELECT * FROM user WHERE email = ?").get(args.where[0].value) as any;
             return Promise.resolve(user);
@@ -31,24 +46,35 @@ const mockAdapter = {
                               .get(args.where[0].value, args.where[1].value) as any;
             return Promise.resolve(blocked);
         }
-        return Promise.resolve(null);
+        const { clause, params } = toSqlWhere(args.where);
+        return Promise.resolve(db.query(`SELECT * FROM ${args.model}${clause}`).get(...params));
     },
     update: (args: any) => {
-        if (args.model === "user") {
-            const { status, deletedAt } = args.update;
-            db.run("UPDATE user SET status = ?, deletedAt = ? WHERE id = ?", [status, deletedAt?.toISOString(), args.where[0].value]);
-            return Promise.resolve({ success: true });
-        }
+        const columns = Object.keys(args.update);
+        const { clause, params } = toSqlWhere(args.where);
+        db.run(`UPDATE ${args.model} SET ${columns.map((column) => `${column} = ?`).join(", ")}${clause}`,
+            [...columns.map((column) => (args.update[column] instanceof Date ? args.update[column].toISOString() : args.update[column])), ...params]);
         return Promise.resolve({ success: true });
     },
+    updateMany: (args: any) => {
+        const columns = Object.keys(args.update);
+        const { clause, params } = toSqlWhere(args.where);
+        const result = db.run(`UPDATE ${args.model} SET ${columns.map((column) => `${column} = ?`).join(", ")}${clause}`,
+            [...columns.map((column) => (args.update[column] instanceof Date ? args.update[column].toISOString() : args.update[column])), ...params]);
+        return Promise.resolve(result.changes);
+    },
     create: (args: any) => {
         if (args.model === "blockedIdentifier") {
-            const { id, identifierHash, type, expiresAt, createdAt } = args.data;
-            db.run("INSERT INTO blockedIdentifier (id, identifierHash, type, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?)",
-                [id, identifierHash, type, expiresAt?.toISOString(), createdAt.toISOString()]);
+            const { id = crypto.randomUUID(), identifierHash, type, keyVersion = null, expiresAt, createdAt = new Date() } = args.data;
+            db.run("INSERT INTO blockedIdentifier (id, identifierHash, type, keyVersion, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?, ?)",
+                [id, identifierHash, type, keyVersion, expiresAt?.toISOString(), createdAt.toISOString()]);
             return Promise.resolve({ ...args.data });
         }
-        return Promise.resolve({ success: true });
+        const data = { id: crypto.randomUUID(), ...args.data };
+        const columns = Object.keys(data);
+        db.run(`INSERT INTO ${args.model} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+            columns.map((column) => (data[column] instanceof Date ? data[column].toISOString() : data[column])));
+        return Promise.resolve(data);
     },
     delete: (args: any) => {
         if (args.model === "blockedIdentifier") {
@@ -56,8 +82,38 @@ const mockAdapter = {
             db.run("DELETE FROM blockedIdentifier WHERE identifierHash = ?", [identifierHash]);
             return Promise.resolve({ success: true });
         }
+        const { clause, params } = toSqlWhere(args.where);
+        db.run(`DELETE FROM ${args.model}${clause}`, params);
         return Promise.resolve({ success: true });
-    }
+    },
+    findMany: (args: any) => {
+        const { clause, params } = toSqlWhere(args.where);
+        const order = args.sortBy ? ` ORDER BY ${args.sortBy.field} ${args.sortBy.direction}` : "";
+        const limit = args.limit ? ` LIMIT ${args.limit}` : "";
+        const offset = args.offset ? ` OFFSET ${args.offset}` : "";
+        return Promise.resolve(db.query(`SELECT * FROM ${args.model}${clause}${order}${limit}${offset}`).all(...params));
+    },
+    count: (args: any) => {
+        const { clause, params } = toSqlWhere(args.where);
+        const row = db.query(`SELECT COUNT(*) AS total FROM ${args.model}${clause}`).get(...params) as any;
+        return Promise.resolve(row.total);
+    },
+    deleteMany: (args: any) => {
+        const { clause, params } = toSqlWhere(args.where);
+        const result = db.run(`DELETE FROM ${args.model}${clause}`, params);
+        return Promise.resolve(result.changes);
+    },
+    transaction: async (callback: (trx: any) => Promise<any>) => {
+        db.run("BEGIN");
+        try {
+            const result = await callback(mockAdapter);
+            db.run("COMMIT");
+            return result;
+        } catch (e) {
+            db.run("ROLLBACK");
+            throw e;
+        }
+    },
 };
 
 const mockPasswordService = {
@@ -65,6 +121,30 @@ const mockPasswordService = {
     verify: async (password: string, hashedPassword: string) => `hashed_${password}` === hashedPassword,
 };
 
+// A real Better Auth instance on the memory adapter, so hooks run through Better Auth's own dispatch
+const createTestAuth = (pluginOptions: Parameters<typeof softDeletion>[0] = {}, authOptions: Record<string, any> = {}) => {
+    const memoryDb: Record<string, any[]> = {
+        user: [], session: [], account: [], verification: [], blockedIdentifier: [],
+        softDeletionEvent: [], softDeletionWebhook: [], restoreAttempt: [],
+    };
+    const auth = betterAuth({
+        secret: "test-secret-test-secret-test-secret",
+        baseURL: "http://localhost:3000",
+        database: memoryAdapter(memoryDb),
+        emailAndPassword: { enabled: true },
+        user: { deleteUser: { enabled: true } },
+        ...authOptions,
+        plugins: [softDeletion(pluginOptions)],
+    });
+    // Signs up and returns the request headers carrying the session cookies
+    const signUp = async (email: string, password = "password1234") => {
+        const { headers } = await auth.api.signUpEmail({ body: { email, password, name: "Test User" }, returnHeaders: true });
+        const cookie = headers.getSetCookie().map((value) => value.split(";")[0]).join("; ");
+        return new Headers({ cookie });
+    };
+    return { auth, memoryDb, signUp };
+};
+
 describe("Soft Deletion Plugin", () => {
     let authPlugin: ReturnType<typeof softDeletion>; // Get the plugin instance
     let pluginInitOptions: any; // Store the options returned by plugin.init()
@@ -84,6 +164,14 @@ describe("Soft Deletion Plugin", () => {
         db.run(`DROP TABLE IF EXISTS session`);
         db.run(`DROP TABLE IF EXISTS account`);
         db.run(`DROP TABLE IF EXISTS blockedIdentifier`);
+        db.run(`DROP TABLE IF EXISTS verification`);
+        db.run(`DROP TABLE IF EXISTS softDeletionEvent`);
+        db.run(`DROP TABLE IF EXISTS softDeletionWebhook`);
+        db.run(`DROP TABLE IF EXISTS restoreAttempt`);
+        db.run(`DROP TABLE IF EXISTS twoFactor`);
+        db.run(`DROP TABLE IF EXISTS organization`);
+        db.run(`DROP TABLE IF EXISTS member`);
+        db.run(`DROP TABLE IF EXISTS apiKey`);
 
         db.run(`CREATE TABLE IF NOT EXISTS user (
             id TEXT PRIMARY KEY,
@@ -94,7 +182,11 @@ describe("Soft Deletion Plugin", () => {
             createdAt DATETIME NOT NULL,
             updatedAt DATETIME NOT NULL,
             status TEXT DEFAULT 'active',
-            deletedAt DATETIME
+            deletedAt DATETIME,
+            deletionReason TEXT,
+            deletionFeedback TEXT,
+            deletionEffectiveAt DATETIME,
+            twoFactorEnabled BOOLEAN
         )`);
 
         db.run(`CREATE TABLE IF NOT EXISTS session (
@@ -126,9 +218,83 @@ describe("Soft Deletion Plugin", () => {
             id TEXT PRIMARY KEY,
             identifierHash TEXT NOT NULL,
             type TEXT NOT NULL,
+            keyVersion TEXT,
             expiresAt DATETIME,
             createdAt DATETIME NOT NULL
         )`);
+
+        db.run(`CREATE TABLE IF NOT EXISTS verification (
+            id TEXT PRIMARY KEY,
+            identifier TEXT NOT NULL,
+            value TEXT NOT NULL,
+            expiresAt DATETIME NOT NULL,
+            createdAt DATETIME,
+            updatedAt DATETIME
+        )`);
+
+        db.run(`CREATE TABLE IF NOT EXISTS softDeletionEvent (
+            id TEXT PRIMARY KEY,
+            type TEXT NOT NULL,
+            userId TEXT,
+            actor TEXT NOT NULL,
+            actorId TEXT,
+            ipAddress TEXT,
+            userAgent TEXT,
+            metadata TEXT,
+            createdAt DATETIME NOT NULL
+        )`);
+
+        db.run(`CREATE TABLE IF NOT EXISTS softDeletionWebhook (
+            id TEXT PRIMARY KEY,
+            url TEXT NOT NULL,
+            eventType TEXT NOT NULL,
+            payload TEXT NOT NULL,
+            status TEXT NOT NULL,
+            attempts INTEGER NOT NULL,
+            nextAttemptAt DATETIME NOT NULL,
+            lastError TEXT,
+            deliveredAt DATETIME,
+            createdAt DATETIME NOT NULL
+        )`);
+
+        db.run(`CREATE TABLE IF NOT EXISTS restoreAttempt (
+            id TEXT PRIMARY KEY,
+            key TEXT NOT NULL UNIQUE,
+            failures TEXT NOT NULL,
+            lockoutCount INTEGER NOT NULL,
+            lockedUntil DATETIME,
+            expiresAt DATETIME NOT NULL
+        )`);
+
+        db.run(`CREATE TABLE IF NOT EXISTS twoFactor (
+            id TEXT PRIMARY KEY,
+            secret TEXT NOT NULL,
+            backupCodes TEXT NOT NULL,
+            userId TEXT NOT NULL
+        )`);
+
+        db.run(`CREATE TABLE IF NOT EXISTS organization (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            status TEXT DEFAULT 'active',
+            deletedAt DATETIME
+        )`);
+
+        db.run(`CREATE TABLE IF NOT EXISTS member (
+            id TEXT PRIMARY KEY,
+            organizationId TEXT NOT NULL,
+            userId TEXT NOT NULL,
+            role TEXT NOT NULL,
+            status TEXT DEFAULT 'active',
+            createdAt DATETIME NOT NULL
+        )`);
+
+        db.run(`CREATE TABLE IF NOT EXISTS apiKey (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            userId TEXT NOT NULL,
+            deletedAt DATETIME
+        )`);
     });
 
 
@@ -329,4 +495,1185 @@ describe("Soft Deletion Plugin", () => {
         const blockedAfterRestore = db.query("SELECT * FROM blockedIdentifier WHERE identifierHash = ?").get(hash) as any;
         expect(blockedAfterRestore).toBeNull();
     });
+
+    it("should purge deleted users once the retention window has passed", async () => {
+        const now = new Date();
+        const expiredDeletedAt = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000).toISOString();
+        const expiredUserId = "user_purge_expired_1";
+        const recentUserId = "user_purge_recent_1";
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [expiredUserId, "Expired User", "purge_expired@example.com", 0, expiredDeletedAt, expiredDeletedAt, "deleted", expiredDeletedAt]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, password, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["account_purge_expired_1", "account_purge_expired_1", "credential", expiredUserId, "hashed_password123", expiredDeletedAt, expiredDeletedAt]);
+        db.run(`INSERT INTO session (id, expiresAt, token, createdAt, updatedAt, userId) VALUES (?, ?, ?, ?, ?, ?)`,
+            ["session_purge_expired_1", now.toISOString(), "token_purge_expired_1", expiredDeletedAt, expiredDeletedAt, expiredUserId]);
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [recentUserId, "Recent User", "purge_recent@example.com", 0, now.toISOString(), now.toISOString(), "deleted", now.toISOString()]);
+
+        const purgeHandler = authPlugin.endpoints?.purgeExpiredUsers;
+        expect(purgeHandler).toBeDefined();
+
+        const dryRunRes = await purgeHandler!({ body: { dryRun: true }, context: { adapter: mockAdapter } } as any);
+        expect(dryRunRes.purgedUserIds).toEqual([expiredUserId]);
+        expect(db.query("SELECT * FROM user WHERE id = ?").get(expiredUserId)).not.toBeNull();
+
+        const purgeRes = await purgeHandler!({ body: {}, context: { adapter: mockAdapter } } as any);
+        expect(purgeRes.purgedCount).toBe(1);
+        expect(purgeRes.hasMore).toBe(false);
+
+        expect(db.query("SELECT * FROM user WHERE id = ?").get(expiredUserId)).toBeNull();
+        expect(db.query("SELECT * FROM account WHERE userId = ?").get(expiredUserId)).toBeNull();
+        expect(db.query("SELECT * FROM session WHERE userId = ?").get(expiredUserId)).toBeNull();
+        expect(db.query("SELECT * FROM user WHERE id = ?").get(recentUserId)).not.toBeNull();
+    });
+
+    it("should anonymize expired users instead of purging them when configured", async () => {
+        const deletedAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+        const userId = "user_anonymize_1";
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, image, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Anonymize Me", "anonymize@example.com", 0, "https://example.com/me.png", deletedAt, deletedAt, "deleted", deletedAt]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, password, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["account_anonymize_1", "account_anonymize_1", "credential", userId, "hashed_password123", deletedAt, deletedAt]);
+
+        const anonymizePlugin = softDeletion({ retentionDays: 1, onExpire: "anonymize" });
+        const anonymizeInit = (anonymizePlugin.init?.({ adapter: mockAdapter } as any) as any).options;
+        const res = await anonymizePlugin.endpoints.purgeExpiredUsers({ body: {}, context: { adapter: mockAdapter } } as any);
+        expect(res.onExpire).toBe("anonymize");
+        expect(res.purgedUserIds).toEqual([userId]);
+
+        const dbUser = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(dbUser.status).toBe("anonymized");
+        expect(dbUser.email).toBe(`deleted-${userId}@anonymized.invalid`);
+        expect(dbUser.name).toBe("Deleted user");
+        expect(dbUser.image).toBeNull();
+        expect(db.query("SELECT * FROM account WHERE userId = ?").get(userId)).toBeNull();
+
+        try {
+            await anonymizeInit.databaseHooks.session.create.before({ userId }, { context: { adapter: mockAdapter } });
+            throw new Error("Should have thrown ACCOUNT_DELETED");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("ACCOUNT_DELETED");
+        }
+
+        // The original email is free again and a second run leaves the row alone.
+        expect(await anonymizeInit.databaseHooks.user.create.before({ email: "anonymize@example.com" }, { context: { adapter: mockAdapter } })).toBeUndefined();
+        const secondRes = await anonymizePlugin.endpoints.purgeExpiredUsers({ body: {}, context: { adapter: mockAdapter } } as any);
+        expect(secondRes.purgedCount).toBe(0);
+    });
+
+    it("should reject restore once the restore window has passed", async () => {
+        const email = "restore_expired@example.com";
+        const password = "password123";
+        const userId = "user_restore_expired_1";
+        const deletedAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Expired Restore User", email, 0, deletedAt, deletedAt, "deleted", deletedAt]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, password, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["account_restore_expired_1", "account_restore_expired_1", "credential", userId, `hashed_${password}`, deletedAt, deletedAt]);
+
+        try {
+            await authPlugin.endpoints.restoreAccount({
+                body: { email, password },
+                context: {
+                    adapter: mockAdapter,
+                    password: { verify: async ({ hash, password }: any) => hash === `hashed_${password}` },
+                },
+            } as any);
+            throw new Error("Should have thrown RESTORE_WINDOW_EXPIRED");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.status).toBe("FORBIDDEN");
+            expect(e.body.code).toBe("RESTORE_WINDOW_EXPIRED");
+        }
+
+        const dbUser = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(dbUser.status).toBe("deleted");
+    });
+
+    it("should restore an account through an emailed restore token", async () => {
+        const email = "restore_token@example.com";
+        const userId = "user_restore_token_1";
+        const sentEmails: any[] = [];
+        const tokenPlugin = softDeletion({
+            sendRestoreEmail: async (data) => {
+                sentEmails.push(data);
+            },
+        });
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Token User", email, 0, new Date().toISOString(), new Date().toISOString(), "deleted", new Date().toISOString()]);
+
+        const context = { adapter: mockAdapter, baseURL: "http://localhost:3000/api/auth" };
+        await tokenPlugin.endpoints.requestAccountRestore({
+            body: { email, callbackURL: "http://localhost:3000/restore" },
+            context,
+        } as any);
+
+        expect(sentEmails).toHaveLength(1);
+        expect(sentEmails[0].user.id).toBe(userId);
+        expect(sentEmails[0].url).toBe(`http://localhost:3000/restore?token=${sentEmails[0].token}`);
+
+        const verifyRes = await tokenPlugin.endpoints.verifyAccountRestore({
+            body: { token: sentEmails[0].token },
+            context,
+        } as any);
+        expect(verifyRes.message).toBe("Account restored successfully.");
+
+        const restoredUser = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(restoredUser.status).toBe("active");
+
+        // The token is single-use
+        try {
+            await tokenPlugin.endpoints.verifyAccountRestore({
+                body: { token: sentEmails[0].token },
+                context,
+            } as any);
+            throw new Error("Should have thrown INVALID_RESTORE_TOKEN");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("INVALID_RESTORE_TOKEN");
+        }
+    });
+
+    it("should refuse to create a session for a deleted user", async () => {
+        const userId = "user_session_deleted_1";
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Session User", "session_deleted@example.com", 0, new Date().toISOString(), new Date().toISOString(), "deleted", new Date().toISOString()]);
+
+        const sessionCreateHook = pluginInitOptions.options?.databaseHooks?.session?.create?.before;
+        expect(sessionCreateHook).toBeDefined();
+
+        try {
+            // e.g. a social sign-in callback creating the session
+            await sessionCreateHook!({ userId, token: "token_session_deleted_1" }, { path: "/callback/github", context: { adapter: mockAdapter } });
+            throw new Error("Should have thrown ACCOUNT_DELETED");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.status).toBe("FORBIDDEN");
+            expect(e.body.code).toBe("ACCOUNT_DELETED");
+        }
+
+        db.run("UPDATE user SET status = 'active', deletedAt = NULL WHERE id = ?", [userId]);
+        const result = await sessionCreateHook!({ userId, token: "token_session_active_1" }, { context: { adapter: mockAdapter } });
+        expect(result).toBeUndefined();
+    });
+
+    it("should expire cookie-cached sessions of deleted users", async () => {
+        const userId = "user_cookie_cache_1";
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Cookie Cache User", "cookie_cache@example.com", 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+
+        // Without secondary storage the database check is opt-in, since it costs a query per session read
+        expect((authPlugin.init?.({ adapter: mockAdapter } as any) as any).options.session).toBeUndefined();
+
+        // With `cookieCacheStatusCheck` the user's status is the revocation marker
+        const statusCheckPlugin = softDeletion({ cookieCacheStatusCheck: true });
+        const version = (statusCheckPlugin.init?.({ adapter: mockAdapter } as any) as any).options.session.cookieCache.version;
+        expect(await version({}, { id: userId })).toBe("1");
+        db.run("UPDATE user SET status = 'deleted' WHERE id = ?", [userId]);
+        expect(await version({}, { id: userId })).toBe("revoked");
+
+        // /get-session still answers through a real instance, with and without the status check
+        const { auth, memoryDb, signUp } = createTestAuth();
+        const headers = await signUp("get_session@example.com");
+        expect((await auth.api.getSession({ headers }))?.user.email).toBe("get_session@example.com");
+        // An app-provided cookie cache version leaves the check to the /get-session hook
+        const checked = createTestAuth({ cookieCacheStatusCheck: true }, { session: { cookieCache: { enabled: true, version: "app-1" } } });
+        const checkedHeaders = await checked.signUp("get_session_checked@example.com");
+        expect((await checked.auth.api.getSession({ headers: checkedHeaders }))?.user.email).toBe("get_session_checked@example.com");
+        checked.memoryDb.user[0].status = "deleted";
+        expect(await checked.auth.api.getSession({ headers: checkedHeaders })).toBeNull();
+        expect(memoryDb.user).toHaveLength(1);
+
+        // With secondary storage the delete hook writes a marker and restore clears it
+        const storage = new Map<string, string>();
+        const secondaryStorage = {
+            get: async (key: string) => storage.get(key) ?? null,
+            set: async (key: string, value: string) => { storage.set(key, value); },
+            delete: async (key: string) => { storage.delete(key); },
+        };
+        const storageInit = softDeletion({ blockReRegistration: false }).init?.({ adapter: mockAdapter, secondaryStorage } as any) as any;
+        await storageInit.options.databaseHooks.user.delete.before(
+            { id: userId, email: "cookie_cache@example.com" },
+            { path: "/delete-user", context: { adapter: mockAdapter, secondaryStorage } },
+        );
+        expect(await storageInit.options.session.cookieCache.version({}, { id: userId })).toBe("revoked");
+    });
+
+    it("should block re-registration on every user creation path", async () => {
+        const email = "oauth_re_register@example.com";
+        const hash = await hashIdentifier(email);
+        db.run("INSERT INTO blockedIdentifier (id, identifierHash, type, createdAt) VALUES (?, ?, ?, ?)",
+            ["blocked_oauth_1", hash, "email", new Date().toISOString()]);
+
+        const userCreateHook = pluginInitOptions.options?.databaseHooks?.user?.create?.before;
+        expect(userCreateHook).toBeDefined();
+
+        try {
+            // e.g. "Sign in with GitHub" creating a fresh user
+            await userCreateHook!({ email: "OAuth_Re_Register@example.com", name: "OAuth User" }, { path: "/callback/github", context: { adapter: mockAdapter } });
+            throw new Error("Should have thrown EMAIL_BLOCKED");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.status).toBe("FORBIDDEN");
+            expect(e.body.code).toBe("EMAIL_BLOCKED");
+        }
+
+        const result = await userCreateHook!({ email: "fresh_user@example.com", name: "Fresh User" }, { context: { adapter: mockAdapter } });
+        expect(result).toBeUndefined();
+    });
+
+    it("should block phone, username and provider account identifiers of deleted users", async () => {
+        const userId = "user_identifiers_1";
+        const identifierPlugin = softDeletion();
+        const initOptions = (identifierPlugin.init?.({ adapter: mockAdapter } as any) as any).options;
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Identifier User", "identifiers@example.com", 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)`,
+            ["account_identifiers_1", "gh_12345", "github", userId, new Date().toISOString(), new Date().toISOString()]);
+
+        await initOptions.databaseHooks.user.delete.before(
+            { id: userId, email: "identifiers@example.com", phoneNumber: "+15550001111", username: "identifier_user" },
+            { path: "/delete-user", context: { adapter: mockAdapter } },
+        );
+
+        const blockedTypes = (db.query("SELECT type FROM blockedIdentifier").all() as any[]).map((row) => row.type).sort();
+        expect(blockedTypes).toEqual(["account", "email", "phoneNumber", "username"]);
+
+        const expectBlocked = async (run: () => Promise<unknown>, code: string) => {
+            try {
+                await run();
+                throw new Error(`Should have thrown ${code}`);
+            } catch (e: any) {
+                expect(e).toBeInstanceOf(APIError);
+                expect(e.body.code).toBe(code);
+            }
+        };
+
+        // Same GitHub account after an email change
+        await expectBlocked(
+            () => initOptions.databaseHooks.account.create.before({ providerId: "github", accountId: "gh_12345" }, { context: { adapter: mockAdapter } }),
+            "ACCOUNT_BLOCKED",
+        );
+        await expectBlocked(
+            () => initOptions.databaseHooks.user.create.before({ email: "new@example.com", phoneNumber: "+15550001111" }, { context: { adapter: mockAdapter } }),
+            "PHONE_NUMBER_BLOCKED",
+        );
+        await expectBlocked(
+            () => identifierPlugin.hooks.before[1].handler({ path: "/sign-up/email", body: { email: "other@example.com", username: "Identifier_User" }, context: { adapter: mockAdapter } } as any),
+            "USERNAME_BLOCKED",
+        );
+    });
+
+    it("should hash blocked identifiers with a keyed HMAC and support key rotation", async () => {
+        const email = "hmac@example.com";
+        const userId = "user_hmac_1";
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "HMAC User", email, 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+
+        const firstKeyPlugin = softDeletion({ identifierHashing: { secret: "pepper-1" } });
+        const firstKeyInit = (firstKeyPlugin.init?.({ adapter: mockAdapter } as any) as any).options;
+        await firstKeyInit.databaseHooks.user.delete.before({ id: userId, email }, { path: "/delete-user", context: { adapter: mockAdapter } });
+
+        const stored = db.query("SELECT * FROM blockedIdentifier WHERE type = 'email'").get() as any;
+        expect(stored.identifierHash).toBe(await hashIdentifier(email, "pepper-1"));
+        expect(stored.identifierHash).not.toBe(await hashIdentifier(email));
+        expect(stored.keyVersion).toBe("1");
+
+        const rotatedPlugin = softDeletion({
+            identifierHashing: { secret: "pepper-2", keyVersion: "2", previousKeys: [{ version: "1", secret: "pepper-1" }] },
+        });
+        const rotatedInit = (rotatedPlugin.init?.({ adapter: mockAdapter } as any) as any).options;
+
+        // Rows hashed with the previous key still block during rotation
+        try {
+            await rotatedInit.databaseHooks.user.create.before({ email }, { context: { adapter: mockAdapter } });
+            throw new Error("Should have thrown EMAIL_BLOCKED");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("EMAIL_BLOCKED");
+        }
+
+        const rehashRes = await rotatedPlugin.endpoints.rehashBlockedIdentifiers({ body: {}, context: { adapter: mockAdapter } } as any);
+        expect(rehashRes.rehashedCount).toBe(1);
+
+        const rehashed = db.query("SELECT * FROM blockedIdentifier WHERE type = 'email'").get() as any;
+        expect(rehashed.identifierHash).toBe(await hashIdentifier(email, "pepper-2"));
+        expect(rehashed.keyVersion).toBe("2");
+    });
+
+    it("should block aliases of a deleted email when canonicalization is enabled", async () => {
+        const userId = "user_canonical_1";
+        const email = "john.doe+x@gmail.com";
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Canonical User", email, 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+
+        expect(canonicalizeEmail("John.Doe+y@GoogleMail.com")).toBe("johndoe@gmail.com");
+        expect(canonicalizeEmail("jane.doe+news@bücher.example")).toBe("jane.doe@xn--bcher-kva.example");
+
+        const canonicalPlugin = softDeletion({ normalizeEmail: canonicalizeEmail });
+        const canonicalInit = (canonicalPlugin.init?.({ adapter: mockAdapter } as any) as any).options;
+        await canonicalInit.databaseHooks.user.delete.before({ id: userId, email }, { path: "/delete-user", context: { adapter: mockAdapter } });
+
+        for (const alias of ["johndoe@gmail.com", "john.doe+y@googlemail.com"]) {
+            try {
+                await canonicalInit.databaseHooks.user.create.before({ email: alias }, { context: { adapter: mockAdapter } });
+                throw new Error("Should have thrown EMAIL_BLOCKED");
+            } catch (e: any) {
+                expect(e).toBeInstanceOf(APIError);
+                expect(e.body.code).toBe("EMAIL_BLOCKED");
+            }
+        }
+    });
+
+    it("should let admins list, inspect, restore and purge deleted users", async () => {
+        const deletedAt = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+        for (const id of ["user_admin_deleted_1", "user_admin_deleted_2"]) {
+            db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [id, "Admin Target", `${id}@example.com`, 0, deletedAt, deletedAt, "deleted", deletedAt]);
+        }
+        const adminContext = (role: string) => ({
+            adapter: mockAdapter,
+            session: { session: { id: "admin_session" }, user: { id: "admin_1", role } },
+        });
+
+        try {
+            await authPlugin.endpoints.adminListDeletedUsers({ query: {}, context: adminContext("user") } as any);
+            throw new Error("Should have thrown ADMIN_ROLE_REQUIRED");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.status).toBe("FORBIDDEN");
+            expect(e.body.code).toBe("ADMIN_ROLE_REQUIRED");
+        }
+
+        const list = await authPlugin.endpoints.adminListDeletedUsers({
+            query: { limit: 1, deletedAfter: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() },
+            context: adminContext("user,admin"),
+        } as any);
+        expect(list.total).toBe(2);
+        expect(list.users).toHaveLength(1);
+
+        const summary = await authPlugin.endpoints.adminGetDeletedUser({
+            query: { userId: "user_admin_deleted_1" },
+            context: adminContext("admin"),
+        } as any);
+        expect(summary.user.id).toBe("user_admin_deleted_1");
+        expect(summary.scheduledDeletionDate).toBeDefined();
+
+        await authPlugin.endpoints.adminRestoreUser({ body: { userId: "user_admin_deleted_1" }, context: adminContext("admin") } as any);
+        expect((db.query("SELECT status FROM user WHERE id = ?").get("user_admin_deleted_1") as any).status).toBe("active");
+
+        const purgeRes = await authPlugin.endpoints.adminPurgeUser({ body: { userId: "user_admin_deleted_2" }, context: adminContext("admin") } as any);
+        expect(purgeRes.onExpire).toBe("purge");
+        expect(db.query("SELECT * FROM user WHERE id = ?").get("user_admin_deleted_2")).toBeNull();
+    });
+
+    it("should soft delete and restore users by id from server code", async () => {
+        const userId = "user_server_api_1";
+        const email = "server_api@example.com";
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Server API User", email, 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, password, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["account_server_api_1", userId, "credential", userId, "hashed_password123", new Date().toISOString(), new Date().toISOString()]);
+        db.run(`INSERT INTO session (id, expiresAt, token, createdAt, updatedAt, userId) VALUES (?, ?, ?, ?, ?, ?)`,
+            ["session_server_api_1", new Date(Date.now() + 60_000).toISOString(), "token_server_api_1", new Date().toISOString(), new Date().toISOString(), userId]);
+
+        const deleteRes = await authPlugin.endpoints.softDeleteUser({ body: { userId, reason: "chargeback" }, context: { adapter: mockAdapter } } as any);
+        expect(deleteRes.userId).toBe(userId);
+        expect(deleteRes.scheduledDeletionDate).toBeDefined();
+
+        const deletedUser = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(deletedUser.status).toBe("deleted");
+        expect(deletedUser.deletionReason).toBe("chargeback");
+        expect(db.query("SELECT * FROM session WHERE userId = ?").get(userId)).toBeNull();
+        expect(db.query("SELECT * FROM account WHERE userId = ?").get(userId)).not.toBeNull();
+        expect(db.query("SELECT * FROM blockedIdentifier WHERE identifierHash = ?").get(await hashIdentifier(email))).not.toBeNull();
+
+        await authPlugin.endpoints.restoreUser({ body: { userId }, context: { adapter: mockAdapter } } as any);
+
+        const restoredUser = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(restoredUser.status).toBe("active");
+        expect(restoredUser.deletionReason).toBeNull();
+        expect(db.query("SELECT * FROM blockedIdentifier WHERE identifierHash = ?").get(await hashIdentifier(email))).toBeNull();
+    });
+
+    it("should record an audit trail of lifecycle events and blocked attempts", async () => {
+        const userId = "user_audit_1";
+        const email = "audit@example.com";
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Audit User", email, 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+
+        await pluginInitOptions.options.databaseHooks.user.delete.before(
+            { id: userId, email },
+            { path: "/delete-user", context: { adapter: mockAdapter, session: { user: { id: userId } } } },
+        );
+        try {
+            await authPlugin.hooks.before[0].handler({
+                path: "/sign-in/email",
+                body: { email, password: "password123" },
+                headers: new Headers({ "user-agent": "audit-test" }),
+                context: { adapter: mockAdapter },
+            } as any);
+        } catch (e: any) {
+            expect(e.body.code).toBe("ACCOUNT_DELETED");
+        }
+        try {
+            await pluginInitOptions.options.databaseHooks.user.create.before({ email }, { context: { adapter: mockAdapter } });
+        } catch (e: any) {
+            expect(e.body.code).toBe("EMAIL_BLOCKED");
+        }
+        await authPlugin.endpoints.adminRestoreUser({
+            body: { userId },
+            context: { adapter: mockAdapter, session: { session: { id: "admin_session" }, user: { id: "admin_1", role: "admin" } } },
+        } as any);
+
+        const res = await authPlugin.endpoints.adminListEvents({
+            query: { userId },
+            context: { adapter: mockAdapter, session: { session: { id: "admin_session" }, user: { id: "admin_1", role: "admin" } } },
+        } as any);
+        const byType = Object.fromEntries(res.events.map((event: any) => [event.type, event]));
+        expect(byType.deleted.actor).toBe("self");
+        expect(byType.sign_in_blocked.userAgent).toBe("audit-test");
+        expect(byType.restored.actor).toBe("admin");
+        expect(byType.restored.actorId).toBe("admin_1");
+
+        const blockedSignUp = db.query("SELECT * FROM softDeletionEvent WHERE type = 'sign_up_blocked'").get() as any;
+        expect(JSON.parse(blockedSignUp.metadata).identifierType).toBe("email");
+    });
+
+    it("should run lifecycle callbacks and let before-callbacks veto", async () => {
+        const userId = "user_callbacks_1";
+        const calls: string[] = [];
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Callback User", "callbacks@example.com", 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+
+        let subscriptionActive = true;
+        const callbackPlugin = softDeletion({
+            retentionDays: 1,
+            beforeSoftDelete: () => {
+                if (subscriptionActive) {
+                    throw new APIError("BAD_REQUEST", { code: "SUBSCRIPTION_ACTIVE", message: "Cancel your subscription first." });
+                }
+            },
+            onSoftDelete: (data) => { calls.push(`deleted:${data.user.id}:${data.actor}:${data.reason}`); },
+            onRestore: (data) => { calls.push(`restored:${data.user.id}:${data.restoreDeadline !== undefined}`); },
+            beforePurge: () => {
+                throw new APIError("CONFLICT", { code: "LEGAL_HOLD", message: "User is under legal hold." });
+            },
+        });
+
+        try {
+            await callbackPlugin.endpoints.softDeleteUser({ body: { userId }, context: { adapter: mockAdapter } } as any);
+            throw new Error("Should have thrown SUBSCRIPTION_ACTIVE");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("SUBSCRIPTION_ACTIVE");
+        }
+        expect((db.query("SELECT status FROM user WHERE id = ?").get(userId) as any).status).toBe("active");
+
+        subscriptionActive = false;
+        await callbackPlugin.endpoints.softDeleteUser({ body: { userId, reason: "too_expensive" }, context: { adapter: mockAdapter } } as any);
+        await callbackPlugin.endpoints.restoreUser({ body: { userId }, context: { adapter: mockAdapter } } as any);
+        expect(calls).toEqual([`deleted:${userId}:system:too_expensive`, `restored:${userId}:true`]);
+
+        const expiredDeletedAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+        db.run("UPDATE user SET status = 'deleted', deletedAt = ? WHERE id = ?", [expiredDeletedAt, userId]);
+        const purgeRes = await callbackPlugin.endpoints.purgeExpiredUsers({ body: {}, context: { adapter: mockAdapter } } as any);
+        expect(purgeRes.purgedCount).toBe(0);
+        expect(purgeRes.skippedUserIds).toEqual([userId]);
+        expect(db.query("SELECT * FROM user WHERE id = ?").get(userId)).not.toBeNull();
+    });
+
+    it("should write deletions to the webhook outbox and deliver them signed with retries", async () => {
+        const userId = "user_webhook_1";
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Webhook User", "webhook@example.com", 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+
+        const webhookPlugin = softDeletion({
+            webhooks: { endpoints: [{ url: "https://hooks.example.com/soft-deletion", secret: "whsec_test" }], backoffSeconds: 60 },
+        });
+        await webhookPlugin.endpoints.softDeleteUser({ body: { userId }, context: { adapter: mockAdapter } } as any);
+
+        const outbox = db.query("SELECT * FROM softDeletionWebhook").all() as any[];
+        expect(outbox).toHaveLength(1);
+        expect(outbox[0].status).toBe("pending");
+        expect(JSON.parse(outbox[0].payload).data.userId).toBe(userId);
+
+        const requests: Array<{ headers: Headers; body: string }> = [];
+        let responseStatus = 500;
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (async (_url: string, init: any) => {
+            requests.push({ headers: new Headers(init.headers), body: init.body });
+            return new Response(null, { status: responseStatus });
+        }) as any;
+        try {
+            const failed = await webhookPlugin.endpoints.deliverWebhooks({ body: {}, context: { adapter: mockAdapter } } as any);
+            expect(failed.retryCount).toBe(1);
+            const retrying = db.query("SELECT * FROM softDeletionWebhook").get() as any;
+            expect(retrying.status).toBe("pending");
+            expect(retrying.attempts).toBe(1);
+            expect(new Date(retrying.nextAttemptAt).getTime()).toBeGreaterThan(Date.now());
+
+            // Not due yet
+            const early = await webhookPlugin.endpoints.deliverWebhooks({ body: {}, context: { adapter: mockAdapter } } as any);
+            expect(early.deliveredCount + early.retryCount).toBe(0);
+
+            responseStatus = 200;
+            const delivered = await webhookPlugin.endpoints.deliverWebhooks({
+                body: { now: new Date(Date.now() + 2 * 60 * 1000) },
+                context: { adapter: mockAdapter },
+            } as any);
+            expect(delivered.deliveredCount).toBe(1);
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+
+        expect((db.query("SELECT status FROM softDeletionWebhook").get() as any).status).toBe("delivered");
+        const [timestamp, signature] = requests[1]!.headers.get("x-soft-deletion-signature")!.split(",").map((part) => part.split("=")[1]);
+        expect(signature).toBe(await signWebhookPayload(requests[1]!.body, Number(timestamp), "whsec_test"));
+    });
+
+    it("should schedule deletion during the grace period and let the user cancel it", async () => {
+        const userId = "user_grace_1";
+        const email = "grace@example.com";
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Grace User", email, 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+
+        const gracePlugin = softDeletion({ gracePeriodDays: 7 });
+        const graceInit = (gracePlugin.init?.({ adapter: mockAdapter } as any) as any).options;
+        const deleteUser = () => graceInit.databaseHooks.user.delete.before(
+            { id: userId, email, status: "active" },
+            { path: "/delete-user", context: { adapter: mockAdapter, session: { user: { id: userId } } } },
+        );
+        const sessionContext = { adapter: mockAdapter, session: { session: { id: "grace_session" }, user: { id: userId } } };
+
+        expect(await deleteUser()).toBe(false);
+        let dbUser = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(dbUser.status).toBe("pending_deletion");
+        expect(new Date(dbUser.deletionEffectiveAt).getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+        expect(db.query("SELECT * FROM blockedIdentifier").get()).toBeNull();
+
+        // Pending users can still sign in
+        await graceInit.databaseHooks.session.create.before({ userId }, { context: { adapter: mockAdapter } });
+
+        await gracePlugin.endpoints.cancelDeletion({ context: sessionContext } as any);
+        dbUser = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(dbUser.status).toBe("active");
+        expect(dbUser.deletionEffectiveAt).toBeNull();
+
+        try {
+            await gracePlugin.endpoints.cancelDeletion({ context: sessionContext } as any);
+            throw new Error("Should have thrown NO_PENDING_DELETION");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("NO_PENDING_DELETION");
+        }
+
+        await deleteUser();
+        const early = await gracePlugin.endpoints.processPendingDeletions({ body: {}, context: { adapter: mockAdapter } } as any);
+        expect(early.deletedUserIds).toEqual([]);
+
+        const sweep = await gracePlugin.endpoints.processPendingDeletions({
+            body: { now: new Date(Date.now() + 8 * 24 * 60 * 60 * 1000) },
+            context: { adapter: mockAdapter },
+        } as any);
+        expect(sweep.deletedUserIds).toEqual([userId]);
+        expect((db.query("SELECT status FROM user WHERE id = ?").get(userId) as any).status).toBe("deleted");
+        expect(db.query("SELECT * FROM blockedIdentifier WHERE identifierHash = ?").get(await hashIdentifier(email))).not.toBeNull();
+    });
+
+    it("should lock restore after repeated failed password attempts", async () => {
+        const email = "lockout@example.com";
+        const userId = "user_lockout_1";
+        const deletedAt = new Date().toISOString();
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Lockout User", email, 0, deletedAt, deletedAt, "deleted", deletedAt]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, password, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["account_lockout_1", userId, "credential", userId, "hashed_password123", deletedAt, deletedAt]);
+
+        const lockoutPlugin = softDeletion({ restoreLockout: { maxAttempts: 3, lockoutSeconds: 60 } });
+        const restore = (password: string) => lockoutPlugin.endpoints.restoreAccount({
+            body: { email, password },
+            context: {
+                adapter: mockAdapter,
+                password: { verify: async ({ hash, password }: any) => hash === `hashed_${password}` },
+            },
+        } as any);
+        const expectCode = async (password: string, code: string) => {
+            try {
+                await restore(password);
+                throw new Error(`Should have thrown ${code}`);
+            } catch (e: any) {
+                expect(e).toBeInstanceOf(APIError);
+                expect(e.body.code).toBe(code);
+                return e;
+            }
+        };
+
+        for (let i = 0; i < 3; i++) await expectCode("wrong", "AUTH_INVALID_CREDENTIALS");
+        // Locked now, even with the right password
+        const locked = await expectCode("password123", "RESTORE_RATE_LIMITED");
+        expect(locked.statusCode).toBe(429);
+        expect(Number(new Headers(locked.headers).get("Retry-After"))).toBeGreaterThan(0);
+
+        // Lock expires; a successful restore clears the counters
+        db.run("UPDATE restoreAttempt SET lockedUntil = ?", [new Date(Date.now() - 1000).toISOString()]);
+        await restore("password123");
+        expect((db.query("SELECT status FROM user WHERE id = ?").get(userId) as any).status).toBe("active");
+        expect(db.query("SELECT * FROM restoreAttempt").get()).toBeNull();
+    });
+
+    it("should not reveal account state before the password is proven in privacy mode", async () => {
+        const now = new Date().toISOString();
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["user_privacy_active", "Active User", "privacy_active@example.com", 0, now, now, "active"]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, password, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["account_privacy_active", "user_privacy_active", "credential", "user_privacy_active", "hashed_password123", now, now]);
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            ["user_privacy_deleted", "Deleted User", "privacy_deleted@example.com", 0, now, now, "deleted", now]);
+
+        const privacyPlugin = softDeletion({ privacyMode: true, restoreLockout: false });
+        const verifiedHashes: string[] = [];
+        const restore = async (email: string, password: string) => {
+            try {
+                await privacyPlugin.endpoints.restoreAccount({
+                    body: { email, password },
+                    context: {
+                        adapter: mockAdapter,
+                        password: {
+                            hash: async (value: string) => `hashed_${value}`,
+                            verify: async ({ hash, password }: any) => {
+                                verifiedHashes.push(hash);
+                                return hash === `hashed_${password}`;
+                            },
+                        },
+                    },
+                } as any);
+                return "OK";
+            } catch (e: any) {
+                expect(e).toBeInstanceOf(APIError);
+                return e.body.code;
+            }
+        };
+
+        // Unknown email, wrong password and passwordless account all look the same and all verify a hash
+        expect(await restore("privacy_unknown@example.com", "password123")).toBe("AUTH_INVALID_CREDENTIALS");
+        expect(await restore("privacy_active@example.com", "wrong")).toBe("AUTH_INVALID_CREDENTIALS");
+        expect(await restore("privacy_deleted@example.com", "password123")).toBe("AUTH_INVALID_CREDENTIALS");
+        expect(verifiedHashes).toHaveLength(3);
+
+        // Status is only revealed after a correct password
+        expect(await restore("privacy_active@example.com", "password123")).toBe("ACCOUNT_NOT_DELETED");
+
+        // The sign-in pre-check stays silent; session creation rejects after the password check instead
+        const signInResult = await privacyPlugin.hooks.before[0].handler({
+            path: "/sign-in/email",
+            body: { email: "privacy_deleted@example.com", password: "anything" },
+            context: { adapter: mockAdapter },
+        } as any);
+        expect(signInResult).toBeUndefined();
+    });
+
+    it("should require a TOTP or backup code to restore a user with two-factor enabled", async () => {
+        const email = "two_factor@example.com";
+        const userId = "user_two_factor_1";
+        const authSecret = "better-auth-secret-for-tests";
+        const totpSecret = "two-factor-totp-secret";
+        const deletedAt = new Date().toISOString();
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt, twoFactorEnabled) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Two Factor User", email, 0, deletedAt, deletedAt, "deleted", deletedAt, 1]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, password, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["account_two_factor_1", userId, "credential", userId, "hashed_password123", deletedAt, deletedAt]);
+        db.run(`INSERT INTO twoFactor (id, secret, backupCodes, userId) VALUES (?, ?, ?, ?)`, [
+            "two_factor_1",
+            await symmetricEncrypt({ key: authSecret, data: totpSecret }),
+            await symmetricEncrypt({ key: authSecret, data: JSON.stringify(["aaaaa-11111", "bbbbb-22222"]) }),
+            userId,
+        ]);
+
+        const twoFactorPlugin = softDeletion({ restoreLockout: false });
+        const context = {
+            adapter: mockAdapter,
+            secret: authSecret,
+            password: { verify: async ({ hash, password }: any) => hash === `hashed_${password}` },
+        };
+        const restore = () => twoFactorPlugin.endpoints.restoreAccount({ body: { email, password: "password123" }, context } as any);
+        const verify = (body: any) => twoFactorPlugin.endpoints.verifyRestoreTwoFactor({ body, context } as any);
+        const status = () => (db.query("SELECT status FROM user WHERE id = ?").get(userId) as any).status;
+
+        // The password alone only yields a challenge
+        const challenge: any = await restore();
+        expect(challenge.twoFactorRequired).toBe(true);
+        expect(status()).toBe("deleted");
+
+        try {
+            await verify({ challengeToken: challenge.challengeToken, code: "000000" });
+            throw new Error("Should have thrown INVALID_TWO_FACTOR_CODE");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("INVALID_TWO_FACTOR_CODE");
+        }
+        expect(status()).toBe("deleted");
+
+        const code = await createOTP(totpSecret).totp();
+        await verify({ challengeToken: challenge.challengeToken, code });
+        expect(status()).toBe("active");
+        expect(db.query("SELECT * FROM blockedIdentifier WHERE identifierHash = ?").get(await hashIdentifier(email))).toBeNull();
+
+        // Backup codes work too and are consumed
+        db.run("UPDATE user SET status = 'deleted', deletedAt = ? WHERE id = ?", [new Date().toISOString(), userId]);
+        const second: any = await restore();
+        await verify({ challengeToken: second.challengeToken, code: "aaaaa-11111", method: "backup_code" });
+        expect(status()).toBe("active");
+        const row = db.query("SELECT backupCodes FROM twoFactor WHERE userId = ?").get(userId) as any;
+        expect(JSON.parse(await symmetricDecrypt({ key: authSecret, data: row.backupCodes }))).toEqual(["bbbbb-22222"]);
+
+        // The emailed restore token is not enough on its own either
+        const sentEmails: any[] = [];
+        const tokenPlugin = softDeletion({ restoreLockout: false, sendRestoreEmail: async (data) => { sentEmails.push(data); } });
+        const tokenContext = { ...context, baseURL: "http://localhost:3000/api/auth" };
+        db.run("UPDATE user SET status = 'deleted', deletedAt = ? WHERE id = ?", [new Date().toISOString(), userId]);
+        await tokenPlugin.endpoints.requestAccountRestore({ body: { email, callbackURL: "http://localhost:3000/restore" }, context: tokenContext } as any);
+        const tokenChallenge: any = await tokenPlugin.endpoints.verifyAccountRestore({ body: { token: sentEmails[0].token }, context: tokenContext } as any);
+        expect(tokenChallenge.twoFactorRequired).toBe(true);
+        expect(status()).toBe("deleted");
+        await tokenPlugin.endpoints.verifyRestoreTwoFactor({
+            body: { challengeToken: tokenChallenge.challengeToken, code: await createOTP(totpSecret).totp() },
+            context: tokenContext,
+        } as any);
+        expect(status()).toBe("active");
+    });
+
+    it("should store the deletion reason and feedback from /delete-user until restore", async () => {
+        const email = "exit_survey@example.com";
+        const { auth, memoryDb, signUp } = createTestAuth({ deletionReasons: ["too_expensive", "other"] });
+        const headers = await signUp(email, "password123");
+
+        try {
+            await auth.api.deleteUser({ headers, body: { password: "password123", reason: "bored" } as any });
+            throw new Error("Should have thrown INVALID_DELETION_DETAILS");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("INVALID_DELETION_DETAILS");
+        }
+
+        await auth.api.deleteUser({
+            headers,
+            body: { password: "password123", reason: "too_expensive", feedback: "  Cheaper plan please.  " } as any,
+        });
+        const [deletedUser] = memoryDb.user;
+        expect(deletedUser).toMatchObject({ status: "deleted", deletionReason: "too_expensive", deletionFeedback: "Cheaper plan please." });
+
+        // Admin filtering and restore, against the shared database
+        const userId = "user_exit_survey_1";
+        const surveyPlugin = softDeletion({ deletionReasons: ["too_expensive", "other"] });
+        const now = new Date().toISOString();
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt, deletionReason, deletionFeedback) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Exit Survey User", email, 0, now, now, "deleted", now, "too_expensive", "Cheaper plan please."]);
+
+        const adminContext = {
+            adapter: mockAdapter,
+            session: { session: { id: "admin_session" }, user: { id: "admin_1", role: "admin" } },
+        };
+        const matching = await surveyPlugin.endpoints.adminListDeletedUsers({ query: { reason: "too_expensive" }, context: adminContext } as any);
+        expect(matching.users.map((summary: any) => summary.user.deletionFeedback)).toEqual(["Cheaper plan please."]);
+        const other = await surveyPlugin.endpoints.adminListDeletedUsers({ query: { reason: "other" }, context: adminContext } as any);
+        expect(other.total).toBe(0);
+
+        await surveyPlugin.endpoints.adminRestoreUser({ body: { userId }, context: adminContext } as any);
+        const restored = db.query("SELECT status, deletionReason, deletionFeedback FROM user WHERE id = ?").get(userId) as any;
+        expect(restored).toEqual({ status: "active", deletionReason: null, deletionFeedback: null });
+    });
+
+    it("should apply the sole-owner policy to organizations and reinstate memberships on restore", async () => {
+        const ownerId = "user_org_owner_1";
+        const now = Date.now();
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [ownerId, "Org Owner", "org_owner@example.com", 0, new Date(now).toISOString(), new Date(now).toISOString(), "active"]);
+        db.run("INSERT INTO organization (id, name) VALUES (?, ?)", ["org_1", "Acme"]);
+        const addMember = (id: string, userId: string, role: string, ageMinutes: number) =>
+            db.run("INSERT INTO member (id, organizationId, userId, role, createdAt) VALUES (?, ?, ?, ?, ?)",
+                [id, "org_1", userId, role, new Date(now - ageMinutes * 60 * 1000).toISOString()]);
+        addMember("member_owner", ownerId, "owner", 30);
+        addMember("member_admin_new", "user_org_admin_2", "admin", 5);
+        addMember("member_admin_old", "user_org_admin_1", "member,admin", 20);
+
+        const deleteOwner = (onSoleOwner: "refuse" | "transfer" | "delete") => {
+            const orgPlugin = softDeletion({ organizations: { onSoleOwner } });
+            const initOptions = (orgPlugin.init?.({ adapter: mockAdapter } as any) as any).options;
+            return initOptions.databaseHooks.user.delete.before(
+                { id: ownerId, email: "org_owner@example.com" },
+                { path: "/delete-user", context: { adapter: mockAdapter } },
+            );
+        };
+        const member = (id: string) => db.query("SELECT role, status FROM member WHERE id = ?").get(id) as any;
+        const organization = () => db.query("SELECT status, deletedAt FROM organization WHERE id = ?").get("org_1") as any;
+        const userStatus = () => (db.query("SELECT status FROM user WHERE id = ?").get(ownerId) as any).status;
+
+        try {
+            await deleteOwner("refuse");
+            throw new Error("Should have thrown SOLE_OWNER");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("SOLE_OWNER");
+            expect(e.body.details).toEqual({ organizationIds: ["org_1"] });
+        }
+        expect(userStatus()).toBe("active");
+
+        // Delete: the organization goes with its owner and comes back on restore
+        await deleteOwner("delete");
+        expect(userStatus()).toBe("deleted");
+        expect(organization().status).toBe("deleted");
+        expect(member("member_owner").status).toBe("inactive");
+
+        const orgPlugin = softDeletion({ organizations: { onSoleOwner: "delete" } });
+        await orgPlugin.endpoints.restoreUser({ body: { userId: ownerId }, context: { adapter: mockAdapter } } as any);
+        expect(userStatus()).toBe("active");
+        expect(organization()).toEqual({ status: "active", deletedAt: null });
+        expect(member("member_owner").status).toBe("active");
+
+        // Transfer: the oldest admin becomes owner
+        await deleteOwner("transfer");
+        expect(member("member_admin_old").role).toBe("member,owner");
+        expect(member("member_admin_new").role).toBe("admin");
+        expect(organization().status).toBe("active");
+        expect(member("member_owner").status).toBe("inactive");
+    });
+
+    it("should soft delete, restore and purge rows of configured models", async () => {
+        for (const id of ["key_1", "key_2", "key_3"]) {
+            db.run("INSERT INTO apiKey (id, name, userId) VALUES (?, ?, ?)", [id, `Key ${id}`, "user_models_1"]);
+        }
+        const modelsPlugin = softDeletion({ models: ["apiKey"], retentionDays: 30 });
+        const authContext: any = { adapter: mockAdapter };
+        Object.assign(authContext, (modelsPlugin.init?.(authContext) as any).context);
+        const adapter = authContext.adapter;
+        expect(adapter).not.toBe(mockAdapter);
+
+        // Deletes from other plugins become updates; reads skip deleted rows
+        await adapter.delete({ model: "apiKey", where: [{ field: "id", value: "key_1" }] });
+        expect(await adapter.deleteMany({ model: "apiKey", where: [{ field: "id", value: "key_2" }] })).toBe(1);
+        expect((db.query("SELECT deletedAt FROM apiKey WHERE id = ?").get("key_1") as any).deletedAt).not.toBeNull();
+        expect(await adapter.findOne({ model: "apiKey", where: [{ field: "id", value: "key_1" }] })).toBeNull();
+        expect((await adapter.findMany({ model: "apiKey", where: [{ field: "userId", value: "user_models_1" }] })).map((row: any) => row.id)).toEqual(["key_3"]);
+        expect(await adapter.count({ model: "apiKey" })).toBe(1);
+
+        const context = { ...authContext, password: {} };
+        await modelsPlugin.endpoints.restoreModelRecord({ body: { model: "apiKey", id: "key_1" }, context } as any);
+        expect(await adapter.findOne({ model: "apiKey", where: [{ field: "id", value: "key_1" }] })).not.toBeNull();
+
+        try {
+            await modelsPlugin.endpoints.restoreModelRecord({ body: { model: "session", id: "key_1" }, context } as any);
+            throw new Error("Should have thrown MODEL_NOT_SOFT_DELETED");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("MODEL_NOT_SOFT_DELETED");
+        }
+
+        // Not purged until retention has passed
+        const early = await modelsPlugin.endpoints.purgeExpiredModelRecords({ body: {}, context } as any);
+        expect(early.purged).toEqual({ apiKey: 0 });
+        const late = await modelsPlugin.endpoints.purgeExpiredModelRecords({
+            body: { before: new Date(Date.now() + 60 * 1000) },
+            context,
+        } as any);
+        expect(late.purged).toEqual({ apiKey: 1 });
+        expect(db.query("SELECT * FROM apiKey WHERE id = ?").get("key_2")).toBeNull();
+
+        await adapter.delete({ model: "apiKey", where: [{ field: "id", value: "key_3" }] });
+        await modelsPlugin.endpoints.purgeModelRecord({ body: { model: "apiKey", id: "key_3" }, context } as any);
+        expect(db.query("SELECT id FROM apiKey").all()).toEqual([{ id: "key_1" }]);
+
+        // Restored rows survive the purge on adapters that compare null dates too
+        const { auth, memoryDb } = createTestAuth({ models: ["apiKey"] });
+        memoryDb.apiKey = [
+            { id: "memory_key_restored", name: "Restored", userId: "user_models_1", deletedAt: null },
+            { id: "memory_key_deleted", name: "Deleted", userId: "user_models_1", deletedAt: new Date(Date.now() - 60 * 1000) },
+        ];
+        const memoryPurge = await auth.api.purgeExpiredModelRecords({ body: { before: new Date() } });
+        expect(memoryPurge.purged).toEqual({ apiKey: 1 });
+        expect(memoryDb.apiKey.map((row) => row.id)).toEqual(["memory_key_restored"]);
+    });
+
+    it("should expose error codes and read deletion dates from ACCOUNT_DELETED errors", async () => {
+        const userId = "user_error_codes_1";
+        const deletedAt = new Date().toISOString();
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Error Codes User", "error_codes@example.com", 0, deletedAt, deletedAt, "deleted", deletedAt]);
+
+        expect(authPlugin.$ERROR_CODES).toBe(SOFT_DELETION_ERROR_CODES);
+        expect(softDeletionClient().$ERROR_CODES).toBe(SOFT_DELETION_ERROR_CODES);
+
+        let serverError: unknown;
+        try {
+            await pluginInitOptions.options.databaseHooks.session.create.before({ userId }, { context: { adapter: mockAdapter } });
+        } catch (e) {
+            serverError = e;
+        }
+        const details = getAccountDeletedDetails(serverError);
+        expect(details?.deletedAt).toBe(deletedAt);
+        expect(new Date(details!.scheduledDeletionDate).getTime()).toBeGreaterThan(new Date(deletedAt).getTime());
+
+        // Client errors carry the body fields at the top level
+        const clientError = { ...(serverError as any).body, status: 403, statusText: "FORBIDDEN" };
+        expect(getAccountDeletedDetails(clientError)).toEqual(details);
+        expect(getAccountDeletedDetails({ code: SOFT_DELETION_ERROR_CODES.EMAIL_BLOCKED.code, details })).toBeNull();
+        expect(getAccountDeletedDetails(null)).toBeNull();
+    });
+
+    it("should report deletion status after proof of ownership and expose it as a client atom", async () => {
+        const email = "status_user@example.com";
+        const password = "password123";
+        const userId = "user_status_1";
+        const deletedAt = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString();
+        const sentEmails: any[] = [];
+        const statusPlugin = softDeletion({
+            restoreWindowDays: 10,
+            sendRestoreEmail: async (data) => {
+                sentEmails.push(data);
+            },
+        });
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Status User", email, 0, deletedAt, deletedAt, "deleted", deletedAt]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, password, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["account_status_1", "account_status_1", "credential", userId, `hashed_${password}`, deletedAt, deletedAt]);
+
+        const context = {
+            adapter: mockAdapter,
+            baseURL: "http://localhost:3000/api/auth",
+            password: { verify: async ({ hash, password }: any) => hash === `hashed_${password}` },
+        };
+
+        try {
+            await statusPlugin.endpoints.deletionStatus({ body: { email, password: "wrong-password" }, context } as any);
+            throw new Error("Should have thrown AUTH_INVALID_CREDENTIALS");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("AUTH_INVALID_CREDENTIALS");
+        }
+
+        const attemptKey = `email:${await hashIdentifier(email)}`;
+        expect(db.query("SELECT * FROM restoreAttempt WHERE key = ?").get(attemptKey)).not.toBeNull();
+
+        // Looked up like /soft-deletion/restore; a successful proof clears the failed attempts
+        const status = await statusPlugin.endpoints.deletionStatus({ body: { email: email.toUpperCase(), password }, context } as any);
+        expect(db.query("SELECT * FROM restoreAttempt WHERE key = ?").get(attemptKey)).toBeNull();
+        expect(status.deletedAt).toBe(deletedAt);
+        expect(status.restorable).toBe(true);
+        expect(status.daysRemaining).toBe(7);
+        expect(status.restoreMethods).toEqual(["password", "email"]);
+        expect(status.twoFactorRequired).toBe(false);
+
+        // A restore link token also proves ownership, and checking status does not consume it
+        await statusPlugin.endpoints.requestAccountRestore({
+            body: { email, callbackURL: "http://localhost:3000/restore" },
+            context,
+        } as any);
+        const token = sentEmails[0].token;
+        const tokenStatus = await statusPlugin.endpoints.deletionStatus({ body: { token }, context } as any);
+        expect(tokenStatus).toEqual(status);
+
+        const client = softDeletionClient();
+        const $fetch = async (path: string, init: any) => {
+            if (path === "/soft-deletion/status") {
+                return { data: await statusPlugin.endpoints.deletionStatus({ body: init.body, context } as any), error: null };
+            }
+            return { data: await statusPlugin.endpoints.verifyAccountRestore({ body: init.body, context } as any), error: null };
+        };
+        const actions = client.getActions($fetch);
+        const { deletionStatus } = client.getAtoms();
+        expect(deletionStatus.get()).toEqual({ data: null, error: null, isPending: false });
+
+        await actions.getDeletionStatus({ token });
+        expect(deletionStatus.get()).toEqual({ data: status, error: null, isPending: false });
+
+        await actions.verifyAccountRestore({ token });
+        expect(deletionStatus.get().data).toBeNull();
+        expect((db.query("SELECT * FROM user WHERE id = ?").get(userId) as any).status).toBe("active");
+
+        try {
+            await statusPlugin.endpoints.deletionStatus({ body: { email, password }, context } as any);
+            throw new Error("Should have thrown ACCOUNT_NOT_DELETED");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("ACCOUNT_NOT_DELETED");
+        }
+    });
+
+    it("should restore a deleted account on sign-in within the restore window when restoreOnSignIn is set", async () => {
+        const userId = "user_sign_in_restore_1";
+        const email = "sign_in_restore@example.com";
+        const restoredUsers: any[] = [];
+        const signInPlugin = softDeletion({
+            restoreOnSignIn: true,
+            onRestore: async (data) => {
+                restoredUsers.push(data.user.id);
+            },
+        });
+        const sessionCreateHook = (signInPlugin.init?.({} as any) as any).options.databaseHooks.session.create.before;
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Sign-in Restore User", email, 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+        await signInPlugin.endpoints.softDeleteUser({ body: { userId }, context: { adapter: mockAdapter } } as any);
+        expect(db.query("SELECT * FROM blockedIdentifier WHERE identifierHash = ?").get(await hashIdentifier(email))).not.toBeNull();
+
+        // The pre-check lets the password be verified instead of rejecting with ACCOUNT_DELETED
+        const preCheck = await signInPlugin.hooks.before[0].handler({
+            path: "/sign-in/email",
+            body: { email, password: "password123" },
+            context: { adapter: mockAdapter },
+        } as any);
+        expect(preCheck).toBeUndefined();
+
+        const context: any = { adapter: mockAdapter };
+        await sessionCreateHook({ userId, token: "token_sign_in_restore_1" }, { path: "/sign-in/email", context });
+        expect((db.query("SELECT * FROM user WHERE id = ?").get(userId) as any).status).toBe("active");
+        expect(db.query("SELECT * FROM blockedIdentifier WHERE identifierHash = ?").get(await hashIdentifier(email))).toBeNull();
+        expect(restoredUsers).toEqual([userId]);
+
+        // Through a real instance: active users sign in as usual, deleted ones come back flagged as restored
+        const { auth, memoryDb, signUp } = createTestAuth({ restoreOnSignIn: true });
+        const headers = await signUp("real_sign_in_restore@example.com", "password123");
+        const signIn = () => auth.api.signInEmail({ body: { email: "real_sign_in_restore@example.com", password: "password123" } });
+        expect(await signIn()).not.toHaveProperty("accountRestored");
+        await auth.api.deleteUser({ headers, body: { password: "password123" } });
+        expect(memoryDb.user[0].status).toBe("deleted");
+        const signInResponse: any = await signIn();
+        expect(signInResponse.accountRestored).toBe(true);
+        expect(signInResponse.user).toMatchObject({ status: "active", deletedAt: null });
+        expect(memoryDb.user[0].status).toBe("active");
+
+        // OAuth callbacks redirect; the flag goes on the callback URL
+        const afterHook = signInPlugin.hooks.after[0];
+        const redirect = new APIError("FOUND", undefined, new Headers({ location: "http://localhost:3000/dashboard" }));
+        await afterHook.handler({ path: "/callback/:id", context: { ...context, returned: redirect } } as any);
+        expect((redirect.headers as Headers).get("location")).toBe("http://localhost:3000/dashboard?accountRestored=true");
+
+        // Outside the restore window sign-in is still refused
+        const expiredId = "user_sign_in_restore_expired_1";
+        const longAgo = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString();
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [expiredId, "Expired Sign-in User", "sign_in_restore_expired@example.com", 0, longAgo, longAgo, "deleted", longAgo]);
+        try {
+            await sessionCreateHook({ userId: expiredId, token: "token_sign_in_restore_2" }, { path: "/callback/:id", context: { adapter: mockAdapter } });
+            throw new Error("Should have thrown ACCOUNT_DELETED");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("ACCOUNT_DELETED");
+        }
+    });
+
+    it("should roll back the status change when the webhook outbox insert fails", async () => {
+        const userId = "user_outbox_rollback_1";
+        const outboxPlugin = softDeletion({
+            webhooks: { endpoints: [{ url: "https://hooks.example.com/soft-deletion", secret: "whsec_test" }] },
+        });
+        const failingAdapter: any = {
+            ...mockAdapter,
+            create: (args: any) => {
+                if (args.model === "softDeletionWebhook") throw new Error("outbox unavailable");
+                return mockAdapter.create(args);
+            },
+            transaction: (callback: (trx: any) => Promise<any>) => mockAdapter.transaction(() => callback(failingAdapter)),
+        };
+
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Outbox Rollback User", "outbox_rollback@example.com", 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+
+        await expect(
+            outboxPlugin.endpoints.softDeleteUser({ body: { userId }, context: { adapter: failingAdapter } } as any),
+        ).rejects.toThrow("outbox unavailable");
+
+        const user = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(user.status).toBe("active");
+        expect(user.deletedAt).toBeNull();
+        expect(db.query("SELECT * FROM softDeletionEvent WHERE userId = ?").all(userId)).toHaveLength(0);
+        expect(db.query("SELECT * FROM blockedIdentifier WHERE identifierHash = ?").get(await hashIdentifier("outbox_rollback@example.com"))).toBeNull();
+    });
+
+    it("should soft delete a pending user right away when an admin removes them", async () => {
+        const userId = "user_grace_admin_remove_1";
+        const email = "grace_admin_remove@example.com";
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Grace Admin Remove User", email, 0, new Date().toISOString(), new Date().toISOString(), "active"]);
+
+        const graceInit = (softDeletion({ gracePeriodDays: 7 }).init?.({ adapter: mockAdapter } as any) as any).options;
+        const deleteHook = graceInit.databaseHooks.user.delete.before;
+        await deleteHook(
+            { id: userId, email, status: "active" },
+            { path: "/delete-user", context: { adapter: mockAdapter, session: { user: { id: userId } }, softDeletionDetails: { reason: "too_expensive" } } },
+        );
+        const pendingUser = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(pendingUser.status).toBe("pending_deletion");
+
+        // Deleting again through /delete-user keeps the scheduled date
+        expect(await deleteHook(pendingUser, { path: "/delete-user", context: { adapter: mockAdapter, session: { user: { id: userId } } } })).toBe(false);
+        expect((db.query("SELECT status FROM user WHERE id = ?").get(userId) as any).status).toBe("pending_deletion");
+
+        expect(await deleteHook(pendingUser, {
+            path: "/admin/remove-user",
+            context: { adapter: mockAdapter, session: { user: { id: "admin_grace_1" } } },
+        })).toBe(false);
+        const removedUser = db.query("SELECT * FROM user WHERE id = ?").get(userId) as any;
+        expect(removedUser.status).toBe("deleted");
+        expect(removedUser.deletedAt).not.toBeNull();
+        expect(removedUser.deletionReason).toBe("too_expensive");
+        expect(db.query("SELECT * FROM blockedIdentifier WHERE identifierHash = ?").get(await hashIdentifier(email))).not.toBeNull();
+    });
+
+    it("should key restore attempt counters by the keyed email hash", async () => {
+        const email = "lockout_keyed@example.com";
+        const keyedPlugin = softDeletion({ identifierHashing: { secret: "attempt-secret" } });
+
+        try {
+            await keyedPlugin.endpoints.restoreAccount({
+                body: { email, password: "wrong" },
+                context: { adapter: mockAdapter, password: { verify: async () => false, hash: async (value: string) => `hashed_${value}` } },
+            } as any);
+            throw new Error("Should have thrown AUTH_INVALID_CREDENTIALS");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(APIError);
+            expect(e.body.code).toBe("AUTH_INVALID_CREDENTIALS");
+        }
+
+        expect(db.query("SELECT * FROM restoreAttempt WHERE key = ?").get(`email:${await hashIdentifier(email, "attempt-secret")}`)).not.toBeNull();
+        expect(db.query("SELECT * FROM restoreAttempt WHERE key = ?").get(`email:${await hashIdentifier(email)}`)).toBeNull();
+    });
+
+    it("should keep a user and their credentials when a restore races the purge", async () => {
+        const userId = "user_purge_race_1";
+        const deletedAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+        db.run(`INSERT INTO user (id, name, email, emailVerified, createdAt, updatedAt, status, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [userId, "Race User", "purge_race@example.com", 0, deletedAt, deletedAt, "deleted", deletedAt]);
+        db.run(`INSERT INTO account (id, accountId, providerId, userId, password, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            ["account_purge_race_1", "account_purge_race_1", "credential", userId, "hashed_password123", deletedAt, deletedAt]);
+
+        const purged: any[] = [];
+        const racePlugin = softDeletion({
+            retentionDays: 1,
+            // The user restores their account after the purge looked them up
+            beforePurge: async () => {
+                db.run("UPDATE user SET status = 'active', deletedAt = NULL WHERE id = ?", [userId]);
+            },
+            onPurge: async (data) => {
+                purged.push(data.user.id);
+            },
+        });
+        const result = await racePlugin.endpoints.purgeExpiredUsers({ body: {}, context: { adapter: mockAdapter } } as any);
+
+        expect(result.purgedUserIds).toEqual([]);
+        expect((db.query("SELECT status FROM user WHERE id = ?").get(userId) as any).status).toBe("active");
+        expect(db.query("SELECT * FROM account WHERE userId = ?").get(userId)).not.toBeNull();
+        expect(db.query("SELECT * FROM softDeletionEvent WHERE userId = ? AND type = 'purged'").get(userId)).toBeNull();
+        expect(purged).toEqual([]);
+    });
 });